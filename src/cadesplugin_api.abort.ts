@@ -0,0 +1,66 @@
+import {
+  CadesPluginError,
+  isCadesPluginError,
+  type CadesPluginGlobal,
+  type CadesPluginObjectFactory,
+} from './cadesplugin_api.types';
+
+export type CadesAbortOptions = {
+  /**
+   * Rejects the call with `ABORTED` as soon as the signal is aborted. Work already handed to the native host
+   * cannot be interrupted; it finishes in the background and its result is discarded.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Converts an abort reason into a `CadesPluginError`. Reasons that already are one (e.g. `DISPOSED`) are kept.
+ */
+export function toAbortError(signal: AbortSignal): CadesPluginError {
+  const reason = signal.reason;
+  if (isCadesPluginError(reason)) return reason;
+  return new CadesPluginError('ABORTED', 'CryptoPro operation was aborted', undefined, { cause: reason });
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw toAbortError(signal);
+}
+
+/**
+ * Settles with `run()` or rejects with `ABORTED` when `signal` fires first.
+ */
+export function withAbortSignal<T>(signal: AbortSignal | undefined, run: () => Promise<T>): Promise<T> {
+  if (!signal) return run();
+  if (signal.aborted) return Promise.reject(toAbortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal));
+    signal.addEventListener('abort', onAbort);
+    let result: Promise<T>;
+    try {
+      result = run();
+    } catch (e) {
+      result = Promise.reject(e);
+    }
+    result.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Wraps a plugin so that creating objects after the signal has fired throws `ABORTED`. Multi-step operations
+ * stop at their next `CreateObjectAsync` instead of running to the end.
+ */
+export function abortablePlugin(
+  plugin: CadesPluginObjectFactory,
+  signal: AbortSignal | undefined,
+): CadesPluginObjectFactory {
+  if (!signal) return plugin;
+  return {
+    CreateObjectAsync: ((name: string) => {
+      throwIfAborted(signal);
+      return plugin.CreateObjectAsync(name);
+    }) as CadesPluginGlobal['CreateObjectAsync'],
+    getLastError: (exception) => plugin.getLastError(exception),
+    ReleasePluginObjects: plugin.ReleasePluginObjects ? () => plugin.ReleasePluginObjects!() : undefined,
+  };
+}
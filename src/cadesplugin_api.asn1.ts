@@ -0,0 +1,260 @@
+/**
+ * Minimal DER reader: just enough ASN.1 to walk X.509 certificates without any dependency.
+ */
+
+export type Asn1Node = {
+  /** Raw identifier octet (first byte), e.g. `0x30` for SEQUENCE. */
+  tag: number;
+  tagClass: 'universal' | 'application' | 'context' | 'private';
+  tagNumber: number;
+  constructed: boolean;
+  /** Offset of the identifier octet in the source buffer. */
+  start: number;
+  /** Offset of the first content byte. */
+  contentStart: number;
+  /** Offset right after the last content byte. */
+  end: number;
+  bytes: Uint8Array;
+};
+
+export const ASN1_TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  NUMERIC_STRING: 0x12,
+  PRINTABLE_STRING: 0x13,
+  TELETEX_STRING: 0x14,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  UNIVERSAL_STRING: 0x1c,
+  BMP_STRING: 0x1e,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+const TAG_CLASSES = ['universal', 'application', 'context', 'private'] as const;
+
+export class Asn1Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Asn1Error';
+  }
+}
+
+export function readAsn1(bytes: Uint8Array, offset = 0): Asn1Node {
+  if (offset + 2 > bytes.length) throw new Asn1Error(`Unexpected end of data at offset ${offset}`);
+
+  const tag = bytes[offset]!;
+  let cursor = offset + 1;
+  let tagNumber = tag & 0x1f;
+  if (tagNumber === 0x1f) {
+    // High-tag-number form.
+    tagNumber = 0;
+    let b: number;
+    do {
+      if (cursor >= bytes.length) throw new Asn1Error('Unexpected end of data in tag');
+      b = bytes[cursor++]!;
+      tagNumber = tagNumber * 128 + (b & 0x7f);
+    } while (b & 0x80);
+  }
+
+  if (cursor >= bytes.length) throw new Asn1Error('Unexpected end of data in length');
+  let length = bytes[cursor++]!;
+  if (length === 0x80) throw new Asn1Error('Indefinite length is not allowed in DER');
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count > 4) throw new Asn1Error(`Length is too long (${count} bytes)`);
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      if (cursor >= bytes.length) throw new Asn1Error('Unexpected end of data in length');
+      length = length * 256 + bytes[cursor++]!;
+    }
+  }
+
+  const end = cursor + length;
+  if (end > bytes.length) throw new Asn1Error(`Element at offset ${offset} overruns the buffer`);
+
+  return {
+    tag,
+    tagClass: TAG_CLASSES[tag >> 6]!,
+    tagNumber,
+    constructed: (tag & 0x20) !== 0,
+    start: offset,
+    contentStart: cursor,
+    end,
+    bytes,
+  };
+}
+
+export function asn1Content(node: Asn1Node): Uint8Array {
+  return node.bytes.subarray(node.contentStart, node.end);
+}
+
+export function asn1Encoded(node: Asn1Node): Uint8Array {
+  return node.bytes.subarray(node.start, node.end);
+}
+
+export function asn1Children(node: Asn1Node): Asn1Node[] {
+  const children: Asn1Node[] = [];
+  let offset = node.contentStart;
+  while (offset < node.end) {
+    const child = readAsn1(node.bytes, offset);
+    if (child.end > node.end) throw new Asn1Error(`Child at offset ${offset} overruns its parent`);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+/**
+ * Parses the content of an OCTET STRING / BIT STRING that wraps another DER element.
+ */
+export function asn1Inner(node: Asn1Node): Asn1Node {
+  const skip = node.tag === ASN1_TAG.BIT_STRING ? 1 : 0;
+  const content = asn1Content(node).subarray(skip);
+  return readAsn1(content, 0);
+}
+
+export function expectTag(node: Asn1Node | undefined, tag: number, what: string): Asn1Node {
+  if (!node || node.tag !== tag) {
+    throw new Asn1Error(`Expected ${what} (tag 0x${tag.toString(16)}), got ${node ? `0x${node.tag.toString(16)}` : 'nothing'}`);
+  }
+  return node;
+}
+
+export function readOid(node: Asn1Node): string {
+  const content = asn1Content(expectTag(node, ASN1_TAG.OID, 'OBJECT IDENTIFIER'));
+  if (content.length === 0) throw new Asn1Error('Empty OBJECT IDENTIFIER');
+
+  const parts: number[] = [];
+  let value = 0;
+  for (let i = 0; i < content.length; i++) {
+    const b = content[i]!;
+    value = value * 128 + (b & 0x7f);
+    if (b & 0x80) continue;
+    if (parts.length === 0) {
+      const first = value < 40 ? 0 : value < 80 ? 1 : 2;
+      parts.push(first, value - first * 40);
+    } else {
+      parts.push(value);
+    }
+    value = 0;
+  }
+  return parts.join('.');
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const b of bytes) hex += b.toString(16).padStart(2, '0');
+  return hex.toUpperCase();
+}
+
+/**
+ * INTEGER as upper-case hex (without the DER sign-padding zero byte).
+ */
+export function readIntegerHex(node: Asn1Node): string {
+  let content = asn1Content(expectTag(node, ASN1_TAG.INTEGER, 'INTEGER'));
+  if (content.length > 1 && content[0] === 0 && (content[1]! & 0x80) !== 0) content = content.subarray(1);
+  return toHex(content);
+}
+
+export function readSmallInteger(node: Asn1Node): number {
+  const content = asn1Content(expectTag(node, ASN1_TAG.INTEGER, 'INTEGER'));
+  let value = 0;
+  for (const b of content) value = value * 256 + b;
+  return value;
+}
+
+export function readBoolean(node: Asn1Node): boolean {
+  return asn1Content(expectTag(node, ASN1_TAG.BOOLEAN, 'BOOLEAN'))[0] !== 0;
+}
+
+function decodeUtf16Be(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes[i]! << 8) | bytes[i + 1]!);
+  return out;
+}
+
+function decodeUtf32Be(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i + 3 < bytes.length; i += 4) {
+    out += String.fromCodePoint(((bytes[i]! << 24) | (bytes[i + 1]! << 16) | (bytes[i + 2]! << 8) | bytes[i + 3]!) >>> 0);
+  }
+  return out;
+}
+
+function decodeLatin1(bytes: Uint8Array): string {
+  let out = '';
+  for (const b of bytes) out += String.fromCharCode(b);
+  return out;
+}
+
+/**
+ * Decodes any of the ASN.1 string types used in X.509 names and extensions.
+ */
+export function readString(node: Asn1Node): string {
+  const content = asn1Content(node);
+  switch (node.tag) {
+    case ASN1_TAG.UTF8_STRING:
+      return new TextDecoder('utf-8').decode(content);
+    case ASN1_TAG.BMP_STRING:
+      return decodeUtf16Be(content);
+    case ASN1_TAG.UNIVERSAL_STRING:
+      return decodeUtf32Be(content);
+    case ASN1_TAG.NUMERIC_STRING:
+    case ASN1_TAG.PRINTABLE_STRING:
+    case ASN1_TAG.TELETEX_STRING:
+    case ASN1_TAG.IA5_STRING:
+      return decodeLatin1(content);
+    default:
+      throw new Asn1Error(`Unsupported string type 0x${node.tag.toString(16)}`);
+  }
+}
+
+/**
+ * Decodes UTCTime / GeneralizedTime into an ISO 8601 string (UTC).
+ */
+export function readTime(node: Asn1Node): string {
+  const text = decodeLatin1(asn1Content(node));
+  let match: RegExpMatchArray | null;
+  let year: number;
+
+  if (node.tag === ASN1_TAG.UTC_TIME) {
+    match = text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/);
+    if (!match) throw new Asn1Error(`Invalid UTCTime: ${text}`);
+    const yy = Number(match[1]);
+    // RFC 5280: YY >= 50 means 19YY, otherwise 20YY.
+    year = yy >= 50 ? 1900 + yy : 2000 + yy;
+  } else if (node.tag === ASN1_TAG.GENERALIZED_TIME) {
+    match = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/);
+    if (!match) throw new Asn1Error(`Invalid GeneralizedTime: ${text}`);
+    year = Number(match[1]);
+  } else {
+    throw new Asn1Error(`Expected a time value, got tag 0x${node.tag.toString(16)}`);
+  }
+
+  const date = new Date(
+    Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] ?? 0)),
+  );
+  return date.toISOString();
+}
+
+/**
+ * Returns the named bits set in a BIT STRING (bit 0 is the most significant bit of the first byte).
+ */
+export function readBitFlags(node: Asn1Node): number[] {
+  const content = asn1Content(expectTag(node, ASN1_TAG.BIT_STRING, 'BIT STRING'));
+  const unused = content[0] ?? 0;
+  const bits: number[] = [];
+  const totalBits = Math.max(0, (content.length - 1) * 8 - unused);
+  for (let i = 0; i < totalBits; i++) {
+    const byte = content[1 + (i >> 3)]!;
+    if (byte & (0x80 >> (i & 7))) bits.push(i);
+  }
+  return bits;
+}
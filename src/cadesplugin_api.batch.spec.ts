@@ -0,0 +1,153 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { signBatch, type CadesBatchSignProgress, type CadesBatchSignResult } from './cadesplugin_api.batch';
+import type { CadesDataInput } from './cadesplugin_api.sign';
+import {
+  createFakeCadesPlugin,
+  createFakeTsa,
+  installFakeCryptoProExtension,
+  type FakeCryptoProExtension,
+} from './cadesplugin_api.testing';
+import { createCadesPluginClient } from './index';
+
+const certificate = { thumbprint: 'AA11', subjectName: 'CN=Alice', hasPrivateKey: true };
+
+function countOf(created: string[], name: string): number {
+  return created.filter((n) => n === name).length;
+}
+
+describe('signBatch', () => {
+  it('reuses one signer and reports progress per item', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+    const progress: CadesBatchSignProgress[] = [];
+
+    const results = await signBatch(fake, ['a', 'b', new Uint8Array([1, 2])], {
+      thumbprint: 'AA11',
+      detached: true,
+      concurrency: 2,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(results.map((r) => r.status)).toEqual(['signed', 'signed', 'signed']);
+    expect(results.map((r) => r.index)).toEqual([0, 1, 2]);
+    expect(countOf(fake.created, 'CAdESCOM.CPSigner')).toBe(1);
+    expect(countOf(fake.created, 'CAdESCOM.Store')).toBe(1);
+    expect(countOf(fake.created, 'CAdESCOM.CadesSignedData')).toBe(3);
+    expect(progress.map((p) => p.completed)).toEqual([1, 2, 3]);
+    expect(progress.at(-1)).toMatchObject({ succeeded: 3, failed: 0, total: 3 });
+  });
+
+  it('continues past failed items and returns structured errors', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+    fake.failNext('CAdESCOM.CadesSignedData', 'The operation was canceled by the user. (0x8010006E)');
+
+    const items = ['a', 42, 'c'] as unknown as CadesDataInput[];
+
+    const results = await signBatch(fake, items, { thumbprint: 'AA11' });
+
+    expect(results[0]).toMatchObject({ status: 'failed', error: { code: 'USER_CANCELLED', details: { index: 0 } } });
+    expect(results[1]).toMatchObject({ status: 'failed', error: { code: 'INVALID_OPTIONS' } });
+    expect(results[2]).toMatchObject({ status: 'signed' });
+  });
+
+  it('stops after the first failure with stopOnError', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+    fake.failNext('CAdESCOM.CadesSignedData', 'boom');
+
+    const results = await signBatch(fake, ['a', 'b', 'c'], { thumbprint: 'AA11', stopOnError: true });
+
+    expect(results.map((r) => r.status)).toEqual(['failed', 'skipped', 'skipped']);
+    expect(results[0]).toMatchObject({ error: { code: 'SIGN_FAILED' } });
+  });
+
+  it('can be cancelled mid-way', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+    const controller = new AbortController();
+    const signed: number[] = [];
+
+    const batch = signBatch(fake, ['a', 'b', 'c', 'd'], {
+      thumbprint: 'AA11',
+      signal: controller.signal,
+      onProgress: ({ result }) => {
+        signed.push(result.index);
+        if (result.index === 1) controller.abort();
+      },
+    });
+
+    const error = await batch.catch((e) => e);
+    expect(error).toMatchObject({ code: 'ABORTED' });
+    expect(signed).toEqual([0, 1]);
+    expect(countOf(fake.created, 'CAdESCOM.CadesSignedData')).toBe(2);
+    // What was signed before the abort is not lost.
+    const results: CadesBatchSignResult[] = error.details.results;
+    expect(results.map((r) => r.status)).toEqual(['signed', 'signed', 'skipped', 'skipped']);
+    expect(results[1]).toMatchObject({ index: 1, signature: expect.any(String) });
+  });
+
+  it('moves in-flight items to the next TSA once', async () => {
+    const tsa = createFakeTsa();
+    tsa.setUnavailable('http://tsa.local/tsp.srf');
+    const fake = createFakeCadesPlugin({ certificates: [certificate], tsa });
+
+    const results = await signBatch(fake, ['a', 'b', 'c'], {
+      thumbprint: 'AA11',
+      cadesType: 'CAdES-T',
+      concurrency: 2,
+      tsaUrls: ['http://tsa.local/tsp.srf', 'http://tsa-backup.local/tsp.srf', 'http://tsa-spare.local/tsp.srf'],
+    });
+
+    expect(results.map((r) => r.status)).toEqual(['signed', 'signed', 'signed']);
+    // Both items in flight failed on the first TSA; the signer moved on once, not to the spare.
+    expect(tsa.requests).toEqual([
+      'http://tsa.local/tsp.srf',
+      'http://tsa.local/tsp.srf',
+      'http://tsa-backup.local/tsp.srf',
+      'http://tsa-backup.local/tsp.srf',
+      'http://tsa-backup.local/tsp.srf',
+    ]);
+    await expect(signBatch(fake, ['a'], { thumbprint: 'AA11', tsaUrls: [''] })).rejects.toMatchObject({
+      code: 'INVALID_OPTIONS',
+    });
+  });
+
+  it('fails the whole batch when the certificate is missing', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+
+    await expect(signBatch(fake, ['a'], { thumbprint: 'BB22' })).rejects.toMatchObject({
+      code: 'CERTIFICATE_NOT_FOUND',
+    });
+    await expect(signBatch(fake, ['a'], { thumbprint: 'AA11', concurrency: 0 })).rejects.toMatchObject({
+      code: 'INVALID_OPTIONS',
+    });
+  });
+});
+
+describe('client signBatch', () => {
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+  });
+
+  it('rejects an aborted batch with the results so far', async () => {
+    kit = installFakeCryptoProExtension(window, document, { plugin: { certificates: [certificate] } });
+    const client = createCadesPluginClient(window, document, { logger: () => {} });
+    await client.ready;
+    const controller = new AbortController();
+
+    const error = await client
+      .signBatch(['a', 'b', 'c'], {
+        thumbprint: 'AA11',
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      })
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'ABORTED' });
+    expect(error.details.results.map((r: CadesBatchSignResult) => r.status)).toEqual(['signed', 'skipped', 'skipped']);
+    await expect(client.signBatch(['a'], { thumbprint: 'AA11', signal: controller.signal })).rejects.toMatchObject({
+      code: 'ABORTED',
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { throwIfAborted } from './cadesplugin_api.abort';
+import { CADESCOM_ENCODING_TYPE, type CadesCPSigner } from './cadesplugin_api.cadescom';
+import { createOperationError } from './cadesplugin_api.hresult';
+import {
+  createSigner,
+  stripBase64LineBreaks,
+  toCadesContent,
+  validateSignOptions,
+  type CadesDataInput,
+  type SignCadesOptions,
+} from './cadesplugin_api.sign';
+import {
+  CadesOperationError,
+  CadesPluginError,
+  isCadesPluginError,
+  type CadesOperationErrorDetails,
+  type CadesPluginObjectFactory,
+} from './cadesplugin_api.types';
+
+/**
+ * Outcome of one batch item, in input order. `skipped` items were not started because the batch stopped early
+ * (`stopOnError`).
+ */
+export type CadesBatchSignResult =
+  | { index: number; status: 'signed'; signature: string }
+  | { index: number; status: 'failed'; error: CadesPluginError }
+  | { index: number; status: 'skipped' };
+
+export type CadesBatchSignProgress = {
+  /** The item that just finished. */
+  result: CadesBatchSignResult;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  total: number;
+};
+
+export type SignBatchOptions = SignCadesOptions & {
+  /**
+   * How many items are in flight at once (defaults to 1). The native host signs one at a time either way; a small
+   * value (2-4) only hides the bridge round-trips.
+   */
+  concurrency?: number;
+
+  /**
+   * Stop starting new items after the first failure; the rest are reported as `skipped` (defaults to false).
+   */
+  stopOnError?: boolean;
+
+  /**
+   * Called after each item, in completion order.
+   */
+  onProgress?: (progress: CadesBatchSignProgress) => void;
+
+  /**
+   * TSA URLs to try in order when `tsaUrl` is not set. When a TSA is unreachable, the item is signed again with the
+   * next one and so are the items after it; items already signed are kept. The client passes its `tsa` URLs.
+   */
+  tsaUrls?: readonly string[];
+};
+
+// Failures that end the whole batch instead of one item. An unreachable TSA with no fallback left fails every item
+// alike.
+const FATAL_CODES: ReadonlySet<string> = new Set(['ABORTED', 'OPERATION_TIMEOUT', 'DISPOSED', 'TSA_UNAVAILABLE']);
+
+// Copies a fatal error with the results so far in `details.results`; the original (which may be shared, like a
+// `DISPOSED` abort reason) is the `cause`.
+function withResults(error: CadesPluginError, results: CadesBatchSignResult[]): CadesPluginError {
+  if (error instanceof CadesOperationError) {
+    const details = { ...(error.details as CadesOperationErrorDetails), results };
+    return new CadesOperationError(error.code, error.message, details, { cause: error });
+  }
+  return new CadesPluginError(error.code, error.message, { ...error.details, results }, { cause: error });
+}
+
+async function signItem(
+  plugin: CadesPluginObjectFactory,
+  signer: CadesCPSigner,
+  data: CadesDataInput,
+  cadesType: number,
+  options: SignBatchOptions,
+): Promise<string> {
+  const { content, contentEncoding } = await toCadesContent(data, options.encoding);
+  const signedData = await plugin.CreateObjectAsync('CAdESCOM.CadesSignedData');
+  // ContentEncoding must be set before Content.
+  await signedData.propset_ContentEncoding(contentEncoding);
+  await signedData.propset_Content(content);
+  const signature = await signedData.SignCades(
+    signer,
+    cadesType,
+    Boolean(options.detached),
+    CADESCOM_ENCODING_TYPE.BASE64,
+  );
+  return stripBase64LineBreaks(signature);
+}
+
+/**
+ * Signs every item with one `CPSigner`, so the certificate is looked up once and the CSP asks for the PIN at most
+ * once per session. Item failures are reported in the results instead of rejecting; the call rejects only when
+ * the signer cannot be created, every TSA is unreachable (`TSA_UNAVAILABLE`) or the batch is aborted. Once items
+ * were started, the rejection carries the results so far in `details.results` (unfinished items are `skipped`).
+ */
+export async function signBatch(
+  plugin: CadesPluginObjectFactory,
+  items: readonly CadesDataInput[],
+  options: SignBatchOptions,
+): Promise<CadesBatchSignResult[]> {
+  if (
+    options?.tsaUrls !== undefined &&
+    (!Array.isArray(options.tsaUrls) || !options.tsaUrls.every((url) => typeof url === 'string' && url.trim()))
+  ) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'tsaUrls must be a list of URLs', { tsaUrls: options.tsaUrls });
+  }
+  const tsaUrls = options?.tsaUrl ? [options.tsaUrl] : [...(options?.tsaUrls ?? [])];
+  const signerOptions = { ...options, tsaUrl: tsaUrls[0] };
+  const cadesType = validateSignOptions(signerOptions);
+  if (!Array.isArray(items)) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'items must be an array');
+  }
+  const concurrency = options.concurrency ?? 1;
+  if (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency <= 0) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'concurrency must be a positive integer', { concurrency });
+  }
+  throwIfAborted(options.signal);
+
+  const results: CadesBatchSignResult[] = items.map((_, index) => ({ index, status: 'skipped' }));
+  let next = 0;
+  let succeeded = 0;
+  let failed = 0;
+  let stopped = false;
+
+  let signer: CadesCPSigner;
+  try {
+    signer = await createSigner(plugin, signerOptions);
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(plugin, e, 'SIGN_FAILED', 'CryptoPro signer setup failed', {
+      thumbprint: options.thumbprint,
+    });
+  }
+
+  const toItemError = (e: unknown, index: number): CadesPluginError =>
+    e instanceof CadesPluginError
+      ? e
+      : createOperationError(plugin, e, 'SIGN_FAILED', 'CryptoPro signing failed', {
+          thumbprint: options.thumbprint,
+          index,
+        });
+
+  // Index in `tsaUrls` of the signer's TSA; `switching` settles once the signer uses it.
+  let tsa = 0;
+  let switching: Promise<void> = Promise.resolve();
+
+  const signWithTsaFallback = async (index: number): Promise<string> => {
+    for (;;) {
+      await switching;
+      throwIfAborted(options.signal);
+      const attempt = tsa;
+      try {
+        return await signItem(plugin, signer, items[index]!, cadesType, options);
+      } catch (e) {
+        const error = toItemError(e, index);
+        if (error.code !== 'TSA_UNAVAILABLE' || (attempt === tsa && tsa >= tsaUrls.length - 1)) throw error;
+        // Items in flight on the same TSA fail too; only the first one moves the signer on, the others just retry.
+        if (attempt === tsa) {
+          tsa++;
+          switching = signer.propset_TSAAddress(tsaUrls[tsa]!);
+        }
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (!stopped && next < items.length) {
+      throwIfAborted(options.signal);
+      const index = next++;
+      let result: CadesBatchSignResult;
+      try {
+        const signature = await signWithTsaFallback(index);
+        result = { index, status: 'signed', signature };
+        succeeded++;
+      } catch (e) {
+        const error = toItemError(e, index);
+        if (FATAL_CODES.has(error.code)) throw error;
+        result = { index, status: 'failed', error };
+        failed++;
+        if (options.stopOnError) stopped = true;
+      }
+      results[index] = result;
+      options.onProgress?.({ result, completed: succeeded + failed, succeeded, failed, total: items.length });
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, () => worker());
+  try {
+    await Promise.all(workers);
+  } catch (e) {
+    // Let the other workers finish their current item before the objects are released.
+    stopped = true;
+    await Promise.allSettled(workers);
+    throw isCadesPluginError(e) ? withResults(e, results) : e;
+  }
+  return results;
+}
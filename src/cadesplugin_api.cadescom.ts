@@ -0,0 +1,494 @@
+/**
+ * Typed declarations for the asynchronous CAdESCOM object model exposed by the
+ * CryptoPro extension (`CreateObjectAsync`).
+ *
+ * In the async model every property read returns a Promise, property writes go
+ * through `propset_<Name>(value)` and every method returns a Promise.
+ * Collections are 1-based (`Item(1)` is the first element).
+ */
+
+/** `CAPICOM_*_STORE` / `CADESCOM_CONTAINER_STORE` */
+export const CADESCOM_STORE_LOCATION = {
+  MEMORY: 0,
+  LOCAL_MACHINE: 1,
+  CURRENT_USER: 2,
+  CONTAINER: 100,
+} as const;
+
+/** `CAPICOM_MY_STORE` and friends. */
+export const CADESCOM_STORE_NAME = {
+  MY: 'My',
+  ROOT: 'Root',
+  CA: 'CA',
+  ADDRESS_BOOK: 'AddressBook',
+} as const;
+
+/** `CAPICOM_STORE_OPEN_*` */
+export const CADESCOM_STORE_OPEN_MODE = {
+  READ_ONLY: 0,
+  READ_WRITE: 1,
+  MAXIMUM_ALLOWED: 2,
+  EXISTING_ONLY: 128,
+  INCLUDE_ARCHIVED: 256,
+} as const;
+
+/** `CAPICOM_CERTIFICATE_FIND_*` (used with `Certificates.Find`). */
+export const CADESCOM_CERTIFICATE_FIND_TYPE = {
+  SHA1_HASH: 0,
+  SUBJECT_NAME: 1,
+  ISSUER_NAME: 2,
+  ROOT_NAME: 3,
+  TEMPLATE_NAME: 4,
+  EXTENSION: 5,
+  EXTENDED_PROPERTY: 6,
+  APPLICATION_POLICY: 7,
+  CERTIFICATE_POLICY: 8,
+  TIME_VALID: 9,
+  TIME_NOT_YET_VALID: 10,
+  TIME_EXPIRED: 11,
+  KEY_USAGE: 12,
+} as const;
+
+/** `CAPICOM_CERT_INFO_*` (used with `Certificate.GetInfo`). */
+export const CADESCOM_CERT_INFO_TYPE = {
+  SUBJECT_SIMPLE_NAME: 0,
+  ISSUER_SIMPLE_NAME: 1,
+  SUBJECT_EMAIL_NAME: 2,
+  ISSUER_EMAIL_NAME: 3,
+  SUBJECT_UPN: 4,
+  ISSUER_UPN: 5,
+  SUBJECT_DNS_NAME: 6,
+  ISSUER_DNS_NAME: 7,
+} as const;
+
+/** `CADESCOM_CADES_*` */
+export const CADESCOM_CADES_TYPE = {
+  DEFAULT: 0,
+  BES: 1,
+  T: 0x5,
+  X_LONG_TYPE_1: 0x5d,
+  PKCS7: 0xffff,
+} as const;
+
+/** `CADESCOM_ENCODE_*` (encoding of signatures and exported blobs). */
+export const CADESCOM_ENCODING_TYPE = {
+  BASE64: 0,
+  BINARY: 1,
+  ANY: -1,
+} as const;
+
+/** `CADESCOM_STRING_TO_UCS2LE` / `CADESCOM_BASE64_TO_BINARY` (encoding of `Content`). */
+export const CADESCOM_CONTENT_ENCODING = {
+  STRING_TO_UCS2LE: 0,
+  BASE64_TO_BINARY: 1,
+} as const;
+
+/** `CAPICOM_CERTIFICATE_INCLUDE_*` (used with `CPSigner.Options`). */
+export const CADESCOM_CERTIFICATE_INCLUDE_OPTION = {
+  CHAIN_EXCEPT_ROOT: 0,
+  WHOLE_CHAIN: 1,
+  END_ENTITY_ONLY: 2,
+} as const;
+
+/** `CADESCOM_HASH_ALGORITHM_*` */
+export const CADESCOM_HASH_ALGORITHM = {
+  SHA1: 0,
+  MD2: 1,
+  MD4: 2,
+  MD5: 3,
+  SHA_256: 4,
+  SHA_384: 5,
+  SHA_512: 6,
+  CP_GOST_3411: 100,
+  CP_GOST_3411_2012_256: 101,
+  CP_GOST_3411_2012_512: 102,
+  CP_GOST_3411_HMAC: 110,
+  CP_GOST_3411_2012_256_HMAC: 111,
+  CP_GOST_3411_2012_512_HMAC: 112,
+} as const;
+
+/** `CADESCOM_ENCRYPTION_ALGORITHM_*` */
+export const CADESCOM_ENCRYPTION_ALGORITHM = {
+  RC2: 0,
+  RC4: 1,
+  DES: 2,
+  DES3: 3,
+  AES: 4,
+  GOST_28147_89: 25,
+} as const;
+
+/** `CADESCOM_AUTHENTICATED_ATTRIBUTE_*` */
+export const CADESCOM_AUTHENTICATED_ATTRIBUTE = {
+  SIGNING_TIME: 0,
+  DOCUMENT_NAME: 1,
+  DOCUMENT_DESCRIPTION: 2,
+  MACHINE_INFO: 0x100,
+  OTHER: -1,
+} as const;
+
+/** `CADESCOM_DISPLAY_DATA_*` */
+export const CADESCOM_DISPLAY_DATA = {
+  NONE: 0,
+  CONTENT: 1,
+  ATTR: 2,
+} as const;
+
+/** `CADESCOM_XML_SIGNATURE_TYPE_*` */
+export const CADESCOM_XML_SIGNATURE_TYPE = {
+  ENVELOPED: 0,
+  ENVELOPING: 1,
+  TEMPLATE: 2,
+} as const;
+
+/** `CADESCOM_XMLDSIG_TYPE` / `CADESCOM_XADES_*` (OR-ed with the XML signature type). */
+export const CADESCOM_XADES_TYPE = {
+  XMLDSIG: 0,
+  XADES_DEFAULT: 0x10,
+  XADES_BES: 0x20,
+  XADES_T: 0x50,
+  XADES_X_LONG_TYPE_1: 0x5d0,
+} as const;
+
+/** `XmlDsigGost*Url*` signature and digest algorithm URIs. */
+export const CADESCOM_XML_ALGORITHM_URI = {
+  GOST_3410_2001: 'urn:ietf:params:xml:ns:cpxmlsec:algorithms:gostr34102001-gostr3411',
+  GOST_3411_94: 'urn:ietf:params:xml:ns:cpxmlsec:algorithms:gostr3411',
+  GOST_3410_2012_256: 'urn:ietf:params:xml:ns:cpxmlsec:algorithms:gostr34102012-gostr34112012-256',
+  GOST_3411_2012_256: 'urn:ietf:params:xml:ns:cpxmlsec:algorithms:gostr34112012-256',
+  GOST_3410_2012_512: 'urn:ietf:params:xml:ns:cpxmlsec:algorithms:gostr34102012-gostr34112012-512',
+  GOST_3411_2012_512: 'urn:ietf:params:xml:ns:cpxmlsec:algorithms:gostr34112012-512',
+  GOST_3410_2001_OBSOLETE: 'http://www.w3.org/2001/04/xmldsig-more#gostr34102001-gostr3411',
+  GOST_3411_94_OBSOLETE: 'http://www.w3.org/2001/04/xmldsig-more#gostr3411',
+} as const;
+
+type ValueOf<T> = T[keyof T];
+
+export type CadesStoreLocation = ValueOf<typeof CADESCOM_STORE_LOCATION>;
+export type CadesStoreOpenMode = ValueOf<typeof CADESCOM_STORE_OPEN_MODE>;
+export type CadesCertificateFindType = ValueOf<typeof CADESCOM_CERTIFICATE_FIND_TYPE>;
+export type CadesCertInfoType = ValueOf<typeof CADESCOM_CERT_INFO_TYPE>;
+export type CadesCadesType = ValueOf<typeof CADESCOM_CADES_TYPE>;
+export type CadesEncodingType = ValueOf<typeof CADESCOM_ENCODING_TYPE>;
+export type CadesContentEncoding = ValueOf<typeof CADESCOM_CONTENT_ENCODING>;
+export type CadesCertificateIncludeOption = ValueOf<typeof CADESCOM_CERTIFICATE_INCLUDE_OPTION>;
+export type CadesHashAlgorithm = ValueOf<typeof CADESCOM_HASH_ALGORITHM>;
+export type CadesEncryptionAlgorithm = ValueOf<typeof CADESCOM_ENCRYPTION_ALGORITHM>;
+export type CadesAuthenticatedAttribute = ValueOf<typeof CADESCOM_AUTHENTICATED_ATTRIBUTE>;
+export type CadesDisplayData = ValueOf<typeof CADESCOM_DISPLAY_DATA>;
+export type CadesXmlSignatureType = ValueOf<typeof CADESCOM_XML_SIGNATURE_TYPE>;
+export type CadesXadesType = ValueOf<typeof CADESCOM_XADES_TYPE>;
+export type CadesXmlAlgorithmUri = ValueOf<typeof CADESCOM_XML_ALGORITHM_URI>;
+
+/**
+ * Dates cross the bridge as JS `Date` (reads) and are accepted as `Date` or a
+ * date string (writes).
+ */
+export type CadesVarDate = Date | string;
+
+// Enum-like parameters below are typed as `number`: the native host accepts raw
+// numbers (and OR-ed flags), the constants above are a convenience.
+
+export interface CadesVersion {
+  readonly MajorVersion: Promise<number>;
+  readonly MinorVersion: Promise<number>;
+  readonly BuildVersion: Promise<number>;
+  toString(): Promise<string>;
+}
+
+export interface CadesAbout {
+  readonly Version: Promise<string>;
+  readonly MajorVersion: Promise<number>;
+  readonly MinorVersion: Promise<number>;
+  readonly BuildVersion: Promise<number>;
+  readonly PluginVersion: Promise<CadesVersion>;
+  CSPVersion(providerName?: string, providerType?: number): Promise<CadesVersion>;
+  CSPName(providerType?: number): Promise<string>;
+}
+
+export interface CadesOID {
+  readonly Value: Promise<string>;
+  readonly FriendlyName: Promise<string>;
+  readonly Name: Promise<number>;
+}
+
+export interface CadesEncodedData {
+  Value(encoding?: number): Promise<string>;
+  Format(multiline?: boolean): Promise<string>;
+}
+
+export interface CadesPublicKey {
+  readonly Algorithm: Promise<CadesOID>;
+  readonly Length: Promise<number>;
+  readonly EncodedKey: Promise<CadesEncodedData>;
+  readonly EncodedParameters: Promise<CadesEncodedData>;
+}
+
+export interface CadesPrivateKey {
+  readonly ContainerName: Promise<string>;
+  readonly UniqueContainerName: Promise<string>;
+  readonly ProviderName: Promise<string>;
+  readonly ProviderType: Promise<number>;
+  readonly KeySpec: Promise<number>;
+  IsAccessible(): Promise<boolean>;
+  IsExportable(): Promise<boolean>;
+  IsRemovable(): Promise<boolean>;
+  IsMachineKeyset(): Promise<boolean>;
+  IsHardwareDevice(): Promise<boolean>;
+  IsProtected(): Promise<boolean>;
+  ChangePin(): Promise<void>;
+}
+
+export interface CadesEKU {
+  readonly Name: Promise<number>;
+  readonly OID: Promise<string>;
+}
+
+export interface CadesEKUs {
+  readonly Count: Promise<number>;
+  Item(index: number): Promise<CadesEKU>;
+}
+
+export interface CadesExtendedKeyUsage {
+  readonly IsPresent: Promise<boolean>;
+  readonly IsCritical: Promise<boolean>;
+  readonly EKUs: Promise<CadesEKUs>;
+}
+
+export interface CadesKeyUsage {
+  readonly IsPresent: Promise<boolean>;
+  readonly IsCritical: Promise<boolean>;
+  readonly IsDigitalSignatureEnabled: Promise<boolean>;
+  readonly IsNonRepudiationEnabled: Promise<boolean>;
+  readonly IsKeyEnciphermentEnabled: Promise<boolean>;
+  readonly IsDataEnciphermentEnabled: Promise<boolean>;
+  readonly IsKeyAgreementEnabled: Promise<boolean>;
+  readonly IsKeyCertSignEnabled: Promise<boolean>;
+  readonly IsCRLSignEnabled: Promise<boolean>;
+  readonly IsEncipherOnlyEnabled: Promise<boolean>;
+  readonly IsDecipherOnlyEnabled: Promise<boolean>;
+}
+
+export interface CadesBasicConstraints {
+  readonly IsPresent: Promise<boolean>;
+  readonly IsCritical: Promise<boolean>;
+  readonly IsCertificateAuthority: Promise<boolean>;
+  readonly IsPathLenConstraintPresent: Promise<boolean>;
+  readonly PathLenConstraint: Promise<number>;
+}
+
+export interface CadesCertificateStatus {
+  readonly Result: Promise<boolean>;
+  readonly CheckFlag: Promise<number>;
+  readonly VerificationTime: Promise<CadesVarDate>;
+  propset_CheckFlag(flag: number): Promise<void>;
+  propset_VerificationTime(time: CadesVarDate): Promise<void>;
+  EKU(): Promise<CadesEKU>;
+}
+
+export interface CadesCertificate {
+  readonly SubjectName: Promise<string>;
+  readonly IssuerName: Promise<string>;
+  readonly SerialNumber: Promise<string>;
+  readonly Thumbprint: Promise<string>;
+  readonly ValidFromDate: Promise<CadesVarDate>;
+  readonly ValidToDate: Promise<CadesVarDate>;
+  readonly Version: Promise<number>;
+  readonly PrivateKey: Promise<CadesPrivateKey>;
+  HasPrivateKey(): Promise<boolean>;
+  IsValid(): Promise<CadesCertificateStatus>;
+  GetInfo(infoType: number): Promise<string>;
+  Export(encoding: number): Promise<string>;
+  Import(encodedCertificate: string): Promise<void>;
+  PublicKey(): Promise<CadesPublicKey>;
+  ExtendedKeyUsage(): Promise<CadesExtendedKeyUsage>;
+  KeyUsage(): Promise<CadesKeyUsage>;
+  BasicConstraints(): Promise<CadesBasicConstraints>;
+  FindPrivateKey(containerName?: string): Promise<void>;
+  Display(): Promise<void>;
+}
+
+export interface CadesCertificates {
+  readonly Count: Promise<number>;
+  Item(index: number): Promise<CadesCertificate>;
+  Find(findType: number, criteria?: unknown, findValidOnly?: boolean): Promise<CadesCertificates>;
+}
+
+export interface CadesStore {
+  readonly Certificates: Promise<CadesCertificates>;
+  readonly Location: Promise<number>;
+  readonly Name: Promise<string>;
+  Open(location?: number, name?: string, openMode?: number): Promise<void>;
+  Close(): Promise<void>;
+  Add(certificate: CadesCertificate): Promise<void>;
+}
+
+export interface CadesCPAttribute {
+  readonly Name: Promise<number>;
+  readonly OID: Promise<string>;
+  readonly Value: Promise<unknown>;
+  readonly ValueEncoding: Promise<number>;
+  propset_Name(name: number): Promise<void>;
+  propset_OID(oid: string): Promise<void>;
+  propset_Value(value: unknown): Promise<void>;
+  propset_ValueEncoding(encoding: number): Promise<void>;
+}
+
+export interface CadesCPAttributes {
+  readonly Count: Promise<number>;
+  Item(index: number): Promise<CadesCPAttribute>;
+  Add(attribute: CadesCPAttribute): Promise<void>;
+  Remove(index: number): Promise<void>;
+  Clear(): Promise<void>;
+}
+
+export interface CadesCRLs {
+  readonly Count: Promise<number>;
+}
+
+export interface CadesCPSigner {
+  readonly Certificate: Promise<CadesCertificate>;
+  readonly Options: Promise<number>;
+  readonly TSAAddress: Promise<string>;
+  readonly KeyPin: Promise<string>;
+  readonly CheckCertificate: Promise<boolean>;
+  readonly SigningTime: Promise<CadesVarDate>;
+  readonly SignatureTimeStampTime: Promise<CadesVarDate>;
+  readonly AuthenticatedAttributes2: Promise<CadesCPAttributes>;
+  readonly UnauthenticatedAttributes: Promise<CadesCPAttributes>;
+  readonly CRLs: Promise<CadesCRLs>;
+  readonly OCSPResponses: Promise<CadesCRLs>;
+  propset_Certificate(certificate: CadesCertificate): Promise<void>;
+  propset_Options(options: number): Promise<void>;
+  propset_TSAAddress(url: string): Promise<void>;
+  propset_KeyPin(pin: string): Promise<void>;
+  propset_CheckCertificate(check: boolean): Promise<void>;
+}
+
+export interface CadesSignatureStatus {
+  readonly IsValid: Promise<boolean>;
+}
+
+/** Signer info read back from a decoded `CadesSignedData` (`SignedData.Signers.Item(i)`). */
+export interface CadesSigner extends CadesCPSigner {
+  readonly SignatureStatus: Promise<CadesSignatureStatus>;
+}
+
+export interface CadesSigners {
+  readonly Count: Promise<number>;
+  Item(index: number): Promise<CadesSigner>;
+}
+
+export interface CadesHashedData {
+  readonly Algorithm: Promise<number>;
+  readonly DataEncoding: Promise<number>;
+  readonly Value: Promise<string>;
+  propset_Algorithm(algorithm: number): Promise<void>;
+  propset_DataEncoding(encoding: number): Promise<void>;
+  Hash(data: string): Promise<void>;
+  SetHashValue(hashValue: string): Promise<void>;
+}
+
+export interface CadesSignedData {
+  readonly Content: Promise<string>;
+  readonly ContentEncoding: Promise<number>;
+  readonly DisplayData: Promise<number>;
+  readonly Signers: Promise<CadesSigners>;
+  readonly Certificates: Promise<CadesCertificates>;
+  propset_Content(content: string): Promise<void>;
+  propset_ContentEncoding(encoding: number): Promise<void>;
+  propset_DisplayData(displayData: number): Promise<void>;
+  SignCades(
+    signer?: CadesCPSigner,
+    cadesType?: number,
+    detached?: boolean,
+    encoding?: number,
+  ): Promise<string>;
+  CoSignCades(
+    signer?: CadesCPSigner,
+    cadesType?: number,
+    encoding?: number,
+  ): Promise<string>;
+  VerifyCades(signedMessage: string, cadesType?: number, detached?: boolean): Promise<void>;
+  EnhanceCades(cadesType?: number, tsaAddress?: string, encoding?: number): Promise<string>;
+  SignHash(
+    hashedData: CadesHashedData,
+    signer?: CadesCPSigner,
+    cadesType?: number,
+    encoding?: number,
+  ): Promise<string>;
+  CoSignHash(
+    hashedData: CadesHashedData,
+    signer?: CadesCPSigner,
+    cadesType?: number,
+    encoding?: number,
+  ): Promise<string>;
+  VerifyHash(hashedData: CadesHashedData, signedMessage: string, cadesType?: number): Promise<void>;
+}
+
+export interface CadesRawSignature {
+  SignHash(hashedData: CadesHashedData, certificate: CadesCertificate): Promise<string>;
+  VerifyHash(
+    hashedData: CadesHashedData,
+    certificate: CadesCertificate,
+    signature: string,
+  ): Promise<void>;
+}
+
+export interface CadesAlgorithm {
+  readonly Name: Promise<number>;
+  readonly KeyLength: Promise<number>;
+  propset_Name(name: number): Promise<void>;
+  propset_KeyLength(keyLength: number): Promise<void>;
+}
+
+export interface CadesRecipients {
+  readonly Count: Promise<number>;
+  Item(index: number): Promise<CadesCertificate>;
+  Add(certificate: CadesCertificate): Promise<void>;
+  Remove(index: number): Promise<void>;
+  Clear(): Promise<void>;
+}
+
+export interface CadesCPEnvelopedData {
+  readonly Content: Promise<string>;
+  readonly ContentEncoding: Promise<number>;
+  readonly Algorithm: Promise<CadesAlgorithm>;
+  readonly Recipients: Promise<CadesRecipients>;
+  propset_Content(content: string): Promise<void>;
+  propset_ContentEncoding(encoding: number): Promise<void>;
+  Encrypt(encoding?: number): Promise<string>;
+  Decrypt(envelopedMessage: string): Promise<void>;
+}
+
+export interface CadesSignedXML {
+  readonly Content: Promise<string>;
+  readonly SignatureType: Promise<number>;
+  readonly SignatureMethod: Promise<string>;
+  readonly DigestMethod: Promise<string>;
+  readonly Signers: Promise<CadesSigners>;
+  propset_Content(content: string): Promise<void>;
+  propset_SignatureType(signatureType: number): Promise<void>;
+  propset_SignatureMethod(uri: string): Promise<void>;
+  propset_DigestMethod(uri: string): Promise<void>;
+  Sign(signer?: CadesCPSigner, xpath?: string): Promise<string>;
+  Verify(signedXml: string, xpath?: string): Promise<void>;
+}
+
+/**
+ * Maps `CreateObjectAsync(name)` object names to their typed async interfaces.
+ * Unknown names fall back to the untyped `CreateObjectAsync(name: string)` overload.
+ */
+export interface CadesObjectMap {
+  'CAdESCOM.About': CadesAbout;
+  'CAdESCOM.Store': CadesStore;
+  'CAdESCOM.Certificate': CadesCertificate;
+  'CAdESCOM.CPSigner': CadesCPSigner;
+  'CAdESCOM.CPAttribute': CadesCPAttribute;
+  'CAdESCOM.CadesSignedData': CadesSignedData;
+  'CAdESCOM.HashedData': CadesHashedData;
+  'CAdESCOM.RawSignature': CadesRawSignature;
+  'CAdESCOM.CPEnvelopedData': CadesCPEnvelopedData;
+  'CAdESCOM.SignedXML': CadesSignedXML;
+}
+
+export type CadesObjectName = keyof CadesObjectMap;
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CADESCOM_STORE_LOCATION } from './cadesplugin_api.cadescom';
+import {
+  listCertificates,
+  matchesCertificateFilters,
+  normalizeThumbprint,
+  type CadesCertificateInfo,
+} from './cadesplugin_api.certificates';
+import { createFakeCadesPlugin } from './cadesplugin_api.testing';
+import { isCadesPluginError } from './cadesplugin_api.types';
+
+const info: CadesCertificateInfo = {
+  thumbprint: 'AA',
+  subjectName: 'CN=Test',
+  issuerName: 'CN=Test CA, O=Roga i Kopyta',
+  serialNumber: '01',
+  validFrom: '2024-01-01T00:00:00.000Z',
+  validTo: '2025-01-01T00:00:00.000Z',
+  hasPrivateKey: true,
+  keyAlgorithmOid: '1.2.643.7.1.1.1.1',
+  extendedKeyUsageOids: ['1.3.6.1.5.5.7.3.2', '1.3.6.1.5.5.7.3.4'],
+};
+
+describe('CryptoPro certificates', () => {
+  it('normalizeThumbprint: strips separators and upper-cases', () => {
+    expect(normalizeThumbprint('\u200eab:cd ef 01')).toBe('ABCDEF01');
+  });
+
+  it('matchesCertificateFilters: applies validity, key, issuer and EKU filters', () => {
+    const now = new Date('2024-06-01T00:00:00Z');
+    expect(matchesCertificateFilters(info, { validOnly: true, now })).toBe(true);
+    expect(matchesCertificateFilters(info, { validOnly: true, now: new Date('2026-01-01') })).toBe(false);
+    expect(matchesCertificateFilters({ ...info, hasPrivateKey: false }, { withPrivateKeyOnly: true })).toBe(false);
+    expect(matchesCertificateFilters(info, { issuer: 'roga' })).toBe(true);
+    expect(matchesCertificateFilters(info, { issuer: /^CN=Other/ })).toBe(false);
+    expect(matchesCertificateFilters(info, { extendedKeyUsage: '1.3.6.1.5.5.7.3.2' })).toBe(true);
+    expect(matchesCertificateFilters(info, { extendedKeyUsage: ['1.3.6.1.5.5.7.3.2', '1.2.3'] })).toBe(false);
+  });
+
+  it('listCertificates: returns plain records from the requested store without releasing plugin objects', async () => {
+    const fake = createFakeCadesPlugin({
+      certificates: [
+        {
+          thumbprint: 'aa bb',
+          subjectName: 'CN=A',
+          issuerName: 'CN=CA',
+          validFrom: '2024-01-01T00:00:00Z',
+          validTo: '2030-01-01T00:00:00Z',
+          hasPrivateKey: true,
+          extendedKeyUsageOids: ['1.3.6.1.5.5.7.3.2'],
+        },
+        { thumbprint: 'cc', subjectName: 'CN=B', hasPrivateKey: false },
+      ],
+      stores: [
+        { location: CADESCOM_STORE_LOCATION.LOCAL_MACHINE, certificates: [{ thumbprint: 'dd', subjectName: 'CN=C' }] },
+      ],
+    });
+    const plugin = Object.assign(fake, { ReleasePluginObjects: vi.fn() });
+
+    const list = await listCertificates(plugin, { withPrivateKeyOnly: true });
+    expect(list).toEqual([
+      {
+        thumbprint: 'AABB',
+        subjectName: 'CN=A',
+        issuerName: 'CN=CA',
+        serialNumber: '01',
+        validFrom: '2024-01-01T00:00:00.000Z',
+        validTo: '2030-01-01T00:00:00.000Z',
+        hasPrivateKey: true,
+        keyAlgorithmOid: '1.2.643.7.1.1.1.1',
+        extendedKeyUsageOids: ['1.3.6.1.5.5.7.3.2'],
+      },
+    ]);
+    expect(fake.created).toEqual(['CAdESCOM.Store']);
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+
+    const machine = await listCertificates(plugin, { storeLocation: CADESCOM_STORE_LOCATION.LOCAL_MACHINE });
+    expect(machine.map((c) => c.thumbprint)).toEqual(['DD']);
+  });
+
+  it('listCertificates: wraps plugin failures into CERTIFICATE_STORE_FAILED', async () => {
+    const fake = createFakeCadesPlugin();
+    const store = {
+      Open: vi.fn(async () => {
+        throw new Error('Cannot find object or property. (0x80092004)');
+      }),
+      Close: vi.fn(async () => undefined),
+    };
+    fake.override('CAdESCOM.Store', () => store);
+
+    const error = await listCertificates(fake).catch((e) => e);
+    expect(isCadesPluginError(error)).toBe(true);
+    expect(error.code).toBe('CERTIFICATE_STORE_FAILED');
+    expect(error.details).toMatchObject({ storeLocation: 2, storeName: 'My', hresult: '0x80092004' });
+    expect(store.Open).toHaveBeenCalledWith(2, 'My', 2);
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  CADESCOM_CERTIFICATE_FIND_TYPE,
+  CADESCOM_STORE_LOCATION,
+  CADESCOM_STORE_NAME,
+  CADESCOM_STORE_OPEN_MODE,
+  type CadesCertificate,
+  type CadesStore,
+} from './cadesplugin_api.cadescom';
+import { createOperationError } from './cadesplugin_api.hresult';
+import type { CadesOperationOptions } from './cadesplugin_api.queue';
+import { CadesPluginError, type CadesPluginObjectFactory } from './cadesplugin_api.types';
+
+/**
+ * Plain, serializable view of a certificate from a CryptoPro store.
+ * Dates are ISO 8601 strings, thumbprints are upper-case hex.
+ */
+export type CadesCertificateInfo = {
+  thumbprint: string;
+  subjectName: string;
+  issuerName: string;
+  serialNumber: string;
+  validFrom: string;
+  validTo: string;
+  hasPrivateKey: boolean;
+  keyAlgorithmOid: string;
+  extendedKeyUsageOids: string[];
+};
+
+export type ListCertificatesOptions = CadesOperationOptions & {
+  /**
+   * Store location (defaults to `CADESCOM_STORE_LOCATION.CURRENT_USER`).
+   */
+  storeLocation?: number;
+
+  /**
+   * Store name (defaults to `CADESCOM_STORE_NAME.MY`).
+   */
+  storeName?: string;
+
+  /**
+   * Keep only certificates whose validity period contains `now`.
+   */
+  validOnly?: boolean;
+
+  /**
+   * Keep only certificates that have a private key bound to them.
+   */
+  withPrivateKeyOnly?: boolean;
+
+  /**
+   * Issuer filter: a string is matched case-insensitively as a substring of `issuerName`.
+   */
+  issuer?: string | RegExp;
+
+  /**
+   * Extended key usage filter: every listed OID must be present on the certificate.
+   */
+  extendedKeyUsage?: string | readonly string[];
+
+  /**
+   * Reference time for `validOnly` (defaults to the current time).
+   */
+  now?: Date;
+};
+
+export function toIsoDate(value: unknown): string {
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString();
+}
+
+export function normalizeThumbprint(thumbprint: string): string {
+  return String(thumbprint ?? '')
+    .replace(/[^0-9a-f]/gi, '')
+    .toUpperCase();
+}
+
+async function readExtendedKeyUsageOids(cert: CadesCertificate): Promise<string[]> {
+  const eku = await cert.ExtendedKeyUsage();
+  if (!(await eku.IsPresent)) return [];
+
+  const ekus = await eku.EKUs;
+  const count = await ekus.Count;
+  const oids: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    const item = await ekus.Item(i);
+    oids.push(await item.OID);
+  }
+  return oids;
+}
+
+/**
+ * Reads the serializable summary of a plugin certificate object.
+ */
+export async function readCertificateInfo(cert: CadesCertificate): Promise<CadesCertificateInfo> {
+  const publicKey = await cert.PublicKey();
+  const algorithm = await publicKey.Algorithm;
+
+  return {
+    thumbprint: normalizeThumbprint(await cert.Thumbprint),
+    subjectName: await cert.SubjectName,
+    issuerName: await cert.IssuerName,
+    serialNumber: await cert.SerialNumber,
+    validFrom: toIsoDate(await cert.ValidFromDate),
+    validTo: toIsoDate(await cert.ValidToDate),
+    hasPrivateKey: Boolean(await cert.HasPrivateKey()),
+    keyAlgorithmOid: await algorithm.Value,
+    extendedKeyUsageOids: await readExtendedKeyUsageOids(cert),
+  };
+}
+
+export function matchesCertificateFilters(
+  info: CadesCertificateInfo,
+  options: ListCertificatesOptions,
+): boolean {
+  if (options.withPrivateKeyOnly && !info.hasPrivateKey) return false;
+
+  if (options.validOnly) {
+    const now = (options.now ?? new Date()).getTime();
+    const from = Date.parse(info.validFrom);
+    const to = Date.parse(info.validTo);
+    if (!(from <= now && now <= to)) return false;
+  }
+
+  if (options.issuer !== undefined) {
+    const issuer = options.issuer;
+    const ok =
+      typeof issuer === 'string'
+        ? info.issuerName.toLowerCase().includes(issuer.toLowerCase())
+        : issuer.test(info.issuerName);
+    if (!ok) return false;
+  }
+
+  if (options.extendedKeyUsage !== undefined) {
+    const required =
+      typeof options.extendedKeyUsage === 'string' ? [options.extendedKeyUsage] : options.extendedKeyUsage;
+    if (!required.every((oid) => info.extendedKeyUsageOids.includes(oid))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * OID of the certificate's public key algorithm (`1.2.643.7.1.1.1.1` for GOST R 34.10-2012 256, ...).
+ */
+export async function readKeyAlgorithmOid(certificate: CadesCertificate): Promise<string> {
+  const publicKey = await certificate.PublicKey();
+  return (await publicKey.Algorithm).Value;
+}
+
+export function releasePluginObjects(plugin: CadesPluginObjectFactory): void {
+  try {
+    plugin.ReleasePluginObjects?.();
+  } catch {
+    // ignore: releasing is best-effort
+  }
+}
+
+async function openStore(
+  plugin: CadesPluginObjectFactory,
+  location: number,
+  name: string,
+): Promise<CadesStore> {
+  const store = await plugin.CreateObjectAsync('CAdESCOM.Store');
+  await store.Open(location, name, CADESCOM_STORE_OPEN_MODE.MAXIMUM_ALLOWED);
+  return store;
+}
+
+/**
+ * Opens a certificate store, reads every certificate into a plain record and applies the filters.
+ * The store is closed when done; the client releases the plugin objects (see `createObjectTracker`).
+ */
+export async function listCertificates(
+  plugin: CadesPluginObjectFactory,
+  options?: ListCertificatesOptions,
+): Promise<CadesCertificateInfo[]> {
+  const opts = options ?? {};
+  const storeLocation = opts.storeLocation ?? CADESCOM_STORE_LOCATION.CURRENT_USER;
+  const storeName = opts.storeName ?? CADESCOM_STORE_NAME.MY;
+
+  let store: CadesStore | null = null;
+  try {
+    store = await openStore(plugin, storeLocation, storeName);
+    const certificates = await store.Certificates;
+    const count = await certificates.Count;
+
+    const result: CadesCertificateInfo[] = [];
+    for (let i = 1; i <= count; i++) {
+      const info = await readCertificateInfo(await certificates.Item(i));
+      if (matchesCertificateFilters(info, opts)) result.push(info);
+    }
+    return result;
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(
+      plugin,
+      e,
+      'CERTIFICATE_STORE_FAILED',
+      'Failed to read CryptoPro certificate store',
+      { storeLocation, storeName },
+    );
+  } finally {
+    if (store) {
+      try {
+        await store.Close();
+      } catch {
+        // ignore
+      }
+    }
+  }
+}
+
+export type FindCertificateOptions = {
+  storeLocation?: number;
+  storeName?: string;
+};
+
+/**
+ * Finds a certificate by its SHA-1 thumbprint. Rejects with `CERTIFICATE_NOT_FOUND` when the store has no match.
+ * Plugin objects are not released here: the returned certificate is meant to be used by the caller.
+ */
+export async function findCertificateByThumbprint(
+  plugin: CadesPluginObjectFactory,
+  thumbprint: string,
+  options?: FindCertificateOptions,
+): Promise<CadesCertificate> {
+  const normalized = normalizeThumbprint(thumbprint);
+  const storeLocation = options?.storeLocation ?? CADESCOM_STORE_LOCATION.CURRENT_USER;
+  const storeName = options?.storeName ?? CADESCOM_STORE_NAME.MY;
+
+  if (!normalized) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'thumbprint must be a non-empty hex string', { thumbprint });
+  }
+
+  let store: CadesStore | null = null;
+  let found: CadesCertificate | null = null;
+  try {
+    store = await openStore(plugin, storeLocation, storeName);
+    const certificates = await store.Certificates;
+    const matches = await certificates.Find(CADESCOM_CERTIFICATE_FIND_TYPE.SHA1_HASH, normalized);
+    if ((await matches.Count) > 0) found = await matches.Item(1);
+  } catch (e) {
+    throw createOperationError(
+      plugin,
+      e,
+      'CERTIFICATE_STORE_FAILED',
+      'Failed to read CryptoPro certificate store',
+      { storeLocation, storeName },
+    );
+  } finally {
+    if (store) {
+      try {
+        await store.Close();
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  if (!found) {
+    throw new CadesPluginError('CERTIFICATE_NOT_FOUND', `Certificate not found: ${normalized}`, {
+      thumbprint: normalized,
+      storeLocation,
+      storeName,
+    });
+  }
+  return found;
+}
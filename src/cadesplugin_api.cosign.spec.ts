@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { coSignCades, listSigners } from './cadesplugin_api.cosign';
+import { signCades } from './cadesplugin_api.sign';
+import { createFakeCadesPlugin } from './cadesplugin_api.testing';
+
+const director = { thumbprint: 'AA11', subjectName: 'CN=Director', hasPrivateKey: true };
+const accountant = { thumbprint: 'BB22', subjectName: 'CN=Accountant', hasPrivateKey: true };
+
+describe('co-signing', () => {
+  it('adds a parallel signature and lists every signer', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [director, accountant] });
+    const first = await signCades(fake, 'invoice', { thumbprint: 'AA11' });
+
+    expect((await listSigners(fake, first)).map((s) => s.certificate?.thumbprint)).toEqual(['AA11']);
+
+    const both = await coSignCades(fake, first, { thumbprint: 'BB22' });
+    const signers = await listSigners(fake, both);
+
+    expect(signers.map((s) => s.certificate?.subjectName)).toEqual(['CN=Director', 'CN=Accountant']);
+    expect(signers[1]).toMatchObject({ signatureType: 'CAdES-BES', certificateValid: null });
+  });
+
+  it('keeps detached signatures detached', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [director, accountant] });
+    const first = await signCades(fake, 'invoice', { thumbprint: 'AA11', detached: true });
+
+    await expect(coSignCades(fake, first, { thumbprint: 'BB22' })).rejects.toMatchObject({
+      code: 'SIGN_FAILED',
+      details: { originalMessage: 'Invalid signature.' },
+    });
+
+    const both = await coSignCades(fake, first, { thumbprint: 'BB22', detachedContent: 'invoice' });
+    expect(await listSigners(fake, both, { detachedContent: 'invoice' })).toHaveLength(2);
+  });
+
+  it('rejects garbage and unreadable signatures', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [director] });
+
+    await expect(listSigners(fake, '  ')).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    await expect(listSigners(fake, 'AAAA')).rejects.toMatchObject({ code: 'VERIFY_FAILED' });
+  });
+});
@@ -0,0 +1,128 @@
+import { CADESCOM_CADES_TYPE, CADESCOM_ENCODING_TYPE, type CadesSignedData } from './cadesplugin_api.cadescom';
+import { createOperationError } from './cadesplugin_api.hresult';
+import type { CadesOperationOptions } from './cadesplugin_api.queue';
+import {
+  createSigner,
+  stripBase64LineBreaks,
+  toCadesContent,
+  validateSignOptions,
+  type CadesDataInput,
+  type CadesStringEncoding,
+  type SignCadesOptions,
+} from './cadesplugin_api.sign';
+import { CadesPluginError, type CadesPluginObjectFactory } from './cadesplugin_api.types';
+import { readSignerReport, type CadesSignerReport } from './cadesplugin_api.verify';
+
+export type ListSignersOptions = CadesOperationOptions & {
+  /**
+   * Signed content of a detached signature. Signers can be listed without it, but their `signatureValid` is then
+   * not meaningful.
+   */
+  detachedContent?: CadesDataInput;
+
+  /**
+   * Encoding of a string `detachedContent` (see `SignCadesOptions.encoding`).
+   */
+  encoding?: CadesStringEncoding;
+};
+
+export type CoSignCadesOptions = Omit<SignCadesOptions, 'detached'> & {
+  /**
+   * Signed content; required for detached signatures, which stay detached after co-signing.
+   */
+  detachedContent?: CadesDataInput;
+};
+
+function toMessage(signature: string): string {
+  const message = typeof signature === 'string' ? stripBase64LineBreaks(signature).trim() : '';
+  if (!message) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'signature must be a non-empty base64 string');
+  }
+  return message;
+}
+
+/**
+ * Decodes an existing signature into a `CadesSignedData`. `VerifyCades` is the only way to load a message; when it
+ * fails the message is usually decoded anyway, so the error is returned for the caller to decide.
+ */
+export async function loadSignedData(
+  plugin: CadesPluginObjectFactory,
+  message: string,
+  options: ListSignersOptions,
+): Promise<{ signedData: CadesSignedData; verifyError: unknown }> {
+  const detached = options.detachedContent !== undefined;
+  const content = detached ? await toCadesContent(options.detachedContent!, options.encoding) : null;
+  const signedData = await plugin.CreateObjectAsync('CAdESCOM.CadesSignedData');
+  if (content) {
+    // ContentEncoding must be set before Content.
+    await signedData.propset_ContentEncoding(content.contentEncoding);
+    await signedData.propset_Content(content.content);
+  }
+  try {
+    await signedData.VerifyCades(message, CADESCOM_CADES_TYPE.BES, detached);
+    return { signedData, verifyError: null };
+  } catch (e) {
+    return { signedData, verifyError: e };
+  }
+}
+
+async function readSigners(signedData: CadesSignedData): Promise<CadesSignerReport[]> {
+  const collection = await signedData.Signers;
+  const count = await collection.Count;
+  const signers: CadesSignerReport[] = [];
+  for (let i = 1; i <= count; i++) {
+    signers.push(await readSignerReport(await collection.Item(i), false));
+  }
+  return signers;
+}
+
+/**
+ * Lists the signers already present in a CAdES signature, in message order. Unlike `verifyCades` it
+ * does not check certificates; a signature that cannot be decoded rejects with `VERIFY_FAILED`.
+ */
+export async function listSigners(
+  plugin: CadesPluginObjectFactory,
+  signature: string,
+  options?: ListSignersOptions,
+): Promise<CadesSignerReport[]> {
+  const message = toMessage(signature);
+
+  try {
+    const { signedData, verifyError } = await loadSignedData(plugin, message, options ?? {});
+    // A signature that does not verify (or lacks its detached content) still lists its signers.
+    const signers = await readSigners(signedData);
+    if (signers.length === 0 && verifyError !== null) throw verifyError;
+    return signers;
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(plugin, e, 'VERIFY_FAILED', 'CryptoPro could not read the signers');
+  }
+}
+
+/**
+ * Adds a parallel signature to an existing CAdES message with `CadesSignedData.CoSignCades`. The existing
+ * signatures must verify; detached messages need `detachedContent`.
+ */
+export async function coSignCades(
+  plugin: CadesPluginObjectFactory,
+  signature: string,
+  options: CoSignCadesOptions,
+): Promise<string> {
+  const cadesType = validateSignOptions(options);
+  const message = toMessage(signature);
+
+  try {
+    const { signedData, verifyError } = await loadSignedData(plugin, message, options);
+    if (verifyError !== null) throw verifyError;
+    const signer = await createSigner(plugin, options);
+    const result = await signedData.CoSignCades(signer, cadesType, CADESCOM_ENCODING_TYPE.BASE64);
+    return stripBase64LineBreaks(result);
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(plugin, e, 'SIGN_FAILED', 'CryptoPro co-signing failed', {
+      thumbprint: options.thumbprint,
+      cadesType: options.cadesType ?? 'CAdES-BES',
+      detached: options.detachedContent !== undefined,
+    });
+  }
+}
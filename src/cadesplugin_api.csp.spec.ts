@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkCryptoProCsp,
+  parseContentSecurityPolicy,
+  patchCryptoProCsp,
+  serializeContentSecurityPolicy,
+} from './cadesplugin_api.csp';
+import { CRYPTOPRO_EXTENSION_IDS, CRYPTOPRO_EXTENSION_ORIGINS } from './cadesplugin_api.utils';
+
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36';
+const V2 = `chrome-extension://${CRYPTOPRO_EXTENSION_IDS.manifestV2}`;
+const V3 = `chrome-extension://${CRYPTOPRO_EXTENSION_IDS.manifestV3}`;
+
+describe('CryptoPro CSP analyzer', () => {
+  it('parseContentSecurityPolicy: splits policies and directives', () => {
+    const policies = parseContentSecurityPolicy("default-src 'self'; Script-Src 'self' https:;, img-src *");
+    expect(policies).toEqual([
+      { directives: [{ name: 'default-src', values: ["'self'"] }, { name: 'script-src', values: ["'self'", 'https:'] }] },
+      { directives: [{ name: 'img-src', values: ['*'] }] },
+    ]);
+    expect(serializeContentSecurityPolicy(policies)).toBe("default-src 'self'; script-src 'self' https:, img-src *");
+  });
+
+  it('checkCryptoProCsp: follows script-src-elem > script-src > default-src', () => {
+    expect(checkCryptoProCsp("img-src 'self'").urls[0]!.policies[0]).toMatchObject({ allowed: true, reason: 'no-directive' });
+
+    const fallback = checkCryptoProCsp(`default-src 'self' ${V2} ${V3}`, { userAgent: CHROME_UA });
+    expect(fallback.allowed).toBe(true);
+    expect(fallback.urls.map((u) => u.policies[0]!.directive)).toEqual(['default-src', 'default-src']);
+
+    // script-src-elem wins over a permissive script-src.
+    const elem = checkCryptoProCsp(`script-src chrome-extension:; script-src-elem 'self'`, { userAgent: CHROME_UA });
+    expect(elem.allowed).toBe(false);
+    expect(elem.urls[0]!.policies[0]).toMatchObject({ directive: 'script-src-elem', reason: 'not-listed' });
+  });
+
+  it('checkCryptoProCsp: handles wildcards, schemes, paths, nonces and strict-dynamic', () => {
+    const check = (policy: string) => checkCryptoProCsp(policy, { extensionIds: [CRYPTOPRO_EXTENSION_IDS.manifestV3] }).urls[0]!.policies[0]!;
+
+    expect(check("script-src * 'self'")).toMatchObject({ allowed: false, reason: 'not-listed' });
+    expect(check('script-src chrome-extension:')).toMatchObject({ allowed: true, reason: 'scheme-source' });
+    expect(check('script-src chrome-extension://*')).toMatchObject({ allowed: true, reason: 'host-source' });
+    expect(check(`script-src ${V3}/nmcades_plugin_api.js`)).toMatchObject({ allowed: true });
+    expect(check(`script-src ${V3}/other.js`)).toMatchObject({ allowed: false });
+    expect(check(`script-src ${CRYPTOPRO_EXTENSION_IDS.manifestV3}`)).toMatchObject({ allowed: false });
+    expect(check("script-src 'nonce-abc'")).toMatchObject({ allowed: false, reason: 'nonce-or-hash-only' });
+    expect(check("script-src 'nonce-abc' 'strict-dynamic'")).toMatchObject({ allowed: true, reason: 'strict-dynamic' });
+    expect(check("script-src 'none'")).toMatchObject({ allowed: false, reason: 'none' });
+  });
+
+  it('checkCryptoProCsp: every policy must allow the URL', () => {
+    const result = checkCryptoProCsp([`script-src ${V3}`, "script-src 'self'"], {
+      extensionIds: [CRYPTOPRO_EXTENSION_IDS.manifestV3],
+    });
+    expect(result.allowed).toBe(false);
+    expect(result.urls[0]!.policies.map((p) => p.allowed)).toEqual([true, false]);
+  });
+
+  it('checkCryptoProCsp: checks every extension build by default', () => {
+    expect(checkCryptoProCsp("script-src 'self'").urls.map((u) => new URL(u.url).host)).toEqual(
+      CRYPTOPRO_EXTENSION_ORIGINS.map((origin) => new URL(origin).host),
+    );
+  });
+
+  it('patchCryptoProCsp: appends only the missing origins to the governing directive', () => {
+    expect(patchCryptoProCsp(`default-src 'self'; script-src 'self' ${V2}; img-src *`, { userAgent: CHROME_UA })).toBe(
+      `default-src 'self'; script-src 'self' ${V2} ${V3}; img-src *`,
+    );
+    expect(patchCryptoProCsp("script-src 'none'", { userAgent: CHROME_UA })).toBe(`script-src ${V2} ${V3}`);
+  });
+
+  it('patchCryptoProCsp: adds script-src-elem instead of widening default-src', () => {
+    expect(patchCryptoProCsp("default-src 'self'; img-src data:", { userAgent: CHROME_UA })).toBe(
+      `default-src 'self'; script-src-elem 'self' ${V2} ${V3}; img-src data:`,
+    );
+  });
+
+  it('patchCryptoProCsp: leaves allowing policies untouched and patches each policy', () => {
+    expect(patchCryptoProCsp("script-src 'nonce-x' 'strict-dynamic'")).toBe("script-src 'nonce-x' 'strict-dynamic'");
+    const patched = patchCryptoProCsp(["script-src chrome-extension:", "script-src 'self'"], { userAgent: CHROME_UA });
+    expect(patched).toBe(`script-src chrome-extension:, script-src 'self' ${V2} ${V3}`);
+    expect(checkCryptoProCsp(patched, { userAgent: CHROME_UA }).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  buildCryptoProExtensionApiUrls,
+  detectBrowser,
+  type BrowserSpec,
+} from './cadesplugin_api.utils';
+
+export type CadesCspDirective = {
+  /** Lower-case directive name, e.g. `script-src`. */
+  name: string;
+  values: string[];
+};
+
+export type CadesCspPolicy = {
+  /** Directives in header order. Repeated directives are kept but only the first one is enforced. */
+  directives: CadesCspDirective[];
+};
+
+export type CadesCspDecisionReason =
+  /** No `script-src-elem`, `script-src` or `default-src`: scripts are not restricted. */
+  | 'no-directive'
+  /** `'strict-dynamic'` trusts scripts inserted by an already trusted script (our loader). */
+  | 'strict-dynamic'
+  | 'scheme-source'
+  | 'host-source'
+  | 'none'
+  /** Only nonces/hashes are listed; the loader does not put a nonce on the extension script. */
+  | 'nonce-or-hash-only'
+  | 'not-listed';
+
+export type CadesCspPolicyDecision = {
+  policyIndex: number;
+  /** Directive that governs `<script src>` for this policy, `null` when there is none. */
+  directive: string | null;
+  allowed: boolean;
+  reason: CadesCspDecisionReason;
+};
+
+export type CadesCspUrlCheck = {
+  url: string;
+  allowed: boolean;
+  policies: CadesCspPolicyDecision[];
+};
+
+export type CadesCspCheckResult = {
+  /** Every extension URL is allowed by every policy. */
+  allowed: boolean;
+  urls: CadesCspUrlCheck[];
+};
+
+export type CadesCspCheckOptions = {
+  /**
+   * Extension API URLs to check. Takes precedence over `extensionIds` and `userAgent`.
+   */
+  extensionApiUrls?: readonly string[];
+
+  /**
+   * Extension ids to check (converted to `chrome-extension://<id>/nmcades_plugin_api.js`).
+   */
+  extensionIds?: readonly string[];
+
+  /**
+   * Check only the URLs the loader would try in this browser. Defaults to every known extension build.
+   */
+  userAgent?: string;
+};
+
+// Every id the loader may try (the Opera/Yandex order includes all store builds).
+const ALL_BUILDS_BROWSER: BrowserSpec = { name: 'Opera', major: null };
+
+const SCRIPT_ELEMENT_DIRECTIVES = ['script-src-elem', 'script-src', 'default-src'] as const;
+
+/**
+ * Parses a `Content-Security-Policy` header value. Several policies (comma-separated, or several header values
+ * passed as an array) are returned separately because each of them is enforced on its own.
+ */
+export function parseContentSecurityPolicy(header: string | readonly string[]): CadesCspPolicy[] {
+  const values = typeof header === 'string' ? [header] : [...header];
+  const policies: CadesCspPolicy[] = [];
+
+  for (const value of values) {
+    for (const policyText of String(value ?? '').split(',')) {
+      const directives: CadesCspDirective[] = [];
+      for (const directiveText of policyText.split(';')) {
+        const tokens = directiveText.trim().split(/\s+/).filter(Boolean);
+        if (tokens.length === 0) continue;
+        directives.push({ name: tokens[0]!.toLowerCase(), values: tokens.slice(1) });
+      }
+      if (directives.length) policies.push({ directives });
+    }
+  }
+
+  return policies;
+}
+
+export function serializeContentSecurityPolicy(policies: readonly CadesCspPolicy[]): string {
+  return policies
+    .map((policy) => policy.directives.map((d) => [d.name, ...d.values].join(' ')).join('; '))
+    .join(', ');
+}
+
+function findDirective(policy: CadesCspPolicy, name: string): CadesCspDirective | undefined {
+  return policy.directives.find((d) => d.name === name);
+}
+
+function effectiveScriptDirective(policy: CadesCspPolicy): CadesCspDirective | undefined {
+  for (const name of SCRIPT_ELEMENT_DIRECTIVES) {
+    const directive = findDirective(policy, name);
+    if (directive) return directive;
+  }
+  return undefined;
+}
+
+const HOST_SOURCE_RE = /^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*|\*\.[^:/]+|[^:/*]+)(?::(\d+|\*))?(\/[^?#]*)?$/i;
+
+function matchesHostSource(source: string, url: URL): boolean {
+  const match = source.match(HOST_SOURCE_RE);
+  if (!match) return false;
+  const [, scheme, host, , path] = match;
+  // Scheme-less sources only match the page's own (network) scheme, never chrome-extension:.
+  if (!scheme || `${scheme.toLowerCase()}:` !== url.protocol) return false;
+
+  const urlHost = url.hostname.toLowerCase();
+  const sourceHost = host!.toLowerCase();
+  if (sourceHost !== '*') {
+    if (sourceHost.startsWith('*.')) {
+      if (!urlHost.endsWith(sourceHost.slice(1))) return false;
+    } else if (sourceHost !== urlHost) {
+      return false;
+    }
+  }
+
+  if (!path || path === '/') return true;
+  return path.endsWith('/') ? url.pathname.startsWith(path) : url.pathname === path;
+}
+
+function decide(directive: CadesCspDirective | undefined, url: URL): Omit<CadesCspPolicyDecision, 'policyIndex'> {
+  if (!directive) return { directive: null, allowed: true, reason: 'no-directive' };
+
+  const values = directive.values;
+  const lower = values.map((v) => v.toLowerCase());
+  const base = { directive: directive.name };
+
+  if (lower.includes("'strict-dynamic'")) return { ...base, allowed: true, reason: 'strict-dynamic' };
+  if (lower.includes(url.protocol)) return { ...base, allowed: true, reason: 'scheme-source' };
+  if (values.some((v) => matchesHostSource(v, url))) return { ...base, allowed: true, reason: 'host-source' };
+
+  if (lower.length === 0 || (lower.length === 1 && lower[0] === "'none'")) {
+    return { ...base, allowed: false, reason: 'none' };
+  }
+  if (lower.some((v) => /^'(nonce|sha256|sha384|sha512)-/.test(v))) {
+    return { ...base, allowed: false, reason: 'nonce-or-hash-only' };
+  }
+  return { ...base, allowed: false, reason: 'not-listed' };
+}
+
+function resolveUrls(options?: CadesCspCheckOptions): string[] {
+  if (options?.extensionApiUrls?.length) return [...options.extensionApiUrls];
+  if (options?.extensionIds?.length) {
+    return options.extensionIds.map((id) => `chrome-extension://${id.trim().toLowerCase()}/nmcades_plugin_api.js`);
+  }
+  const browser = options?.userAgent !== undefined ? detectBrowser(options.userAgent) : ALL_BUILDS_BROWSER;
+  return buildCryptoProExtensionApiUrls(browser);
+}
+
+/**
+ * Answers "will this CSP let the CryptoPro extension API script load?" for every extension URL the loader
+ * would try. `<script src>` is governed by `script-src-elem`, falling back to `script-src` and `default-src`;
+ * `*` and `'self'` never match `chrome-extension:` URLs.
+ */
+export function checkCryptoProCsp(
+  header: string | readonly string[],
+  options?: CadesCspCheckOptions,
+): CadesCspCheckResult {
+  const policies = parseContentSecurityPolicy(header);
+  const urls = resolveUrls(options).map((url): CadesCspUrlCheck => {
+    const parsed = new URL(url);
+    const decisions = policies.map((policy, policyIndex) => ({
+      policyIndex,
+      ...decide(effectiveScriptDirective(policy), parsed),
+    }));
+    return { url, allowed: decisions.every((d) => d.allowed), policies: decisions };
+  });
+
+  return { allowed: urls.every((u) => u.allowed), urls };
+}
+
+/**
+ * Returns the policy with the smallest change that lets the extension URLs load: their origins are appended
+ * to the governing `script-src-elem`/`script-src` directive. When only `default-src` applies, a new
+ * `script-src-elem` (a copy of `default-src` plus the origins) is added so other resource types stay untouched.
+ * Policies that already allow the URLs are kept as is (only whitespace and directive-name case are normalized).
+ */
+export function patchCryptoProCsp(header: string | readonly string[], options?: CadesCspCheckOptions): string {
+  const policies = parseContentSecurityPolicy(header);
+  const urls = resolveUrls(options).map((url) => new URL(url));
+
+  for (const policy of policies) {
+    const missing = urls
+      .filter((url) => !decide(effectiveScriptDirective(policy), url).allowed)
+      // `URL.origin` is "null" for non-special schemes such as chrome-extension:.
+      .map((url) => `${url.protocol}//${url.host}`)
+      .filter((origin, index, all) => all.indexOf(origin) === index);
+    if (missing.length === 0) continue;
+
+    const directive = effectiveScriptDirective(policy)!;
+    if (directive.name === 'default-src') {
+      const values = directive.values.filter((v) => v.toLowerCase() !== "'none'");
+      const index = policy.directives.indexOf(directive);
+      policy.directives.splice(index + 1, 0, { name: 'script-src-elem', values: [...values, ...missing] });
+    } else {
+      directive.values = [...directive.values.filter((v) => v.toLowerCase() !== "'none'"), ...missing];
+    }
+  }
+
+  return serializeContentSecurityPolicy(policies);
+}
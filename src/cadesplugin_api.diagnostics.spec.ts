@@ -0,0 +1,68 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { formatCadesDiagnostics, runCadesDiagnostics } from './cadesplugin_api.diagnostics';
+import { installFakeCryptoProExtension, type FakeCryptoProExtension } from './cadesplugin_api.testing';
+import { CRYPTOPRO_EXTENSION_IDS } from './cadesplugin_api.utils';
+
+const V2_URL = `chrome-extension://${CRYPTOPRO_EXTENSION_IDS.manifestV2}/nmcades_plugin_api.js`;
+const V3_URL = `chrome-extension://${CRYPTOPRO_EXTENSION_IDS.manifestV3}/nmcades_plugin_api.js`;
+
+describe('CryptoPro diagnostics', () => {
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+  });
+
+  it('collects a full report for a working setup', async () => {
+    kit = installFakeCryptoProExtension(window, document, {
+      plugin: { certificates: [{ thumbprint: 'AA', subjectName: 'CN=A' }, { thumbprint: 'BB', subjectName: 'CN=B' }] },
+    });
+
+    const report = await runCadesDiagnostics(window, document, { logger: () => {} });
+
+    expect(report).toMatchObject({
+      loadedUrl: V3_URL,
+      extension: { version: '1.3.2', id: CRYPTOPRO_EXTENSION_IDS.manifestV3, manifest: 'v3' },
+      plugin: { pluginVersion: '2.0.15000', cspVersion: '5.0.13000' },
+      certificateCount: 2,
+      errorCode: null,
+      warnings: [],
+    });
+    expect(report.scripts.map((s) => [s.url, s.status])).toEqual([
+      [V2_URL, 'failed'],
+      [V3_URL, 'loaded'],
+    ]);
+    expect(report.timings.handshakeMs).not.toBe(null);
+    expect(report.timings.nativeHostMs).not.toBe(null);
+    // The global may be shared with a client whose objects must survive.
+    expect(kit.releaseCount).toBe(0);
+
+    const text = formatCadesDiagnostics(report);
+    expect(text).toContain('Result: OK');
+    expect(text).toContain(`  - loaded ${V3_URL}`);
+    expect(text).toContain('Certificates: 2');
+    expect(JSON.parse(formatCadesDiagnostics(report, 'json'))).toEqual(report);
+  });
+
+  it('reports CSP violations and the final error code without throwing', async () => {
+    kit = installFakeCryptoProExtension(window, document, { failure: 'csp-blocked' });
+
+    const report = await runCadesDiagnostics(window, document, { logger: () => {}, extensionInfoTimeoutMs: 50 });
+
+    expect(report.errorCode).toBe('CSP_BLOCKED');
+    expect(report.scripts.every((s) => s.status === 'failed' && s.cspViolation?.blockedURI === s.url)).toBe(true);
+    // The content script still answers even though the API script was blocked.
+    expect(report.extension.version).toBe('1.3.2');
+    expect(report.certificateCount).toBe(null);
+    expect(formatCadesDiagnostics(report)).toContain('Result: FAILED (CSP_BLOCKED)');
+    expect(formatCadesDiagnostics(report)).toContain('[CSP script-src-elem]');
+  });
+
+  it('never throws on invalid options', async () => {
+    const report = await runCadesDiagnostics(window, document, { timeoutMs: -1 });
+    expect(report.errorCode).toBe('INVALID_OPTIONS');
+    expect(report.extension).toEqual({ version: null, id: null, manifest: null });
+  });
+});
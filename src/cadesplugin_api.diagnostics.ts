@@ -0,0 +1,207 @@
+import { listCertificates } from './cadesplugin_api.certificates';
+import {
+  getExtensionManifest,
+  queryCryptoProExtension,
+  type CadesExtensionManifest,
+  type CadesExtensionQuery,
+} from './cadesplugin_api.extension';
+import { installCadesPlugin } from './cadesplugin_api.install';
+import {
+  isCadesPluginError,
+  type CadesPluginErrorCode,
+  type CadesPluginGlobal,
+  type CadesPluginInstallOptions,
+  type CadesPluginScriptAttempt,
+} from './cadesplugin_api.types';
+import { detectBrowser, type BrowserSpec } from './cadesplugin_api.utils';
+
+export type CadesDiagnosticsOptions = CadesPluginInstallOptions & {
+  /**
+   * How long to wait for the extension version/id answers (defaults to 1000ms).
+   */
+  extensionInfoTimeoutMs?: number;
+
+  /**
+   * Count certificates in the `CURRENT_USER`/`My` store (defaults to true).
+   */
+  countCertificates?: boolean;
+};
+
+/**
+ * Everything support needs to know about a CryptoPro setup. Serializable as JSON.
+ */
+export type CadesDiagnosticsReport = {
+  createdAt: string;
+  userAgent: string;
+  browser: BrowserSpec;
+  pageUrl: string | null;
+  scripts: CadesPluginScriptAttempt[];
+  loadedUrl: string | null;
+  extension: { version: string | null; id: string | null; manifest: CadesExtensionManifest | null };
+  timings: {
+    totalMs: number;
+    initMs: number | null;
+    handshakeMs: number | null;
+    nativeHostMs: number | null;
+  };
+  plugin: { pluginVersion: string | null; cspVersion: string | null; cspName: string | null };
+  certificateCount: number | null;
+  errorCode: CadesPluginErrorCode | null;
+  errorMessage: string | null;
+  /** Non-fatal problems of individual diagnostic steps. */
+  warnings: string[];
+};
+
+// Provider type of "Crypto-Pro GOST R 34.10-2012 Cryptographic Service Provider".
+const GOST_2012_256_PROVIDER_TYPE = 80;
+
+function messageOf(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+function readExtension(win: Window, query: CadesExtensionQuery, timeoutMs: number): Promise<string | null> {
+  return queryCryptoProExtension(win, query, { timeoutMs }).catch(() => null);
+}
+
+// The objects are not released: CAdESCOM can only release every object of the page at once, and the global may be
+// in use by a client. They are freed with the others on its next release.
+async function readAbout(raw: CadesPluginGlobal, report: CadesDiagnosticsReport): Promise<void> {
+  try {
+    const about = await raw.CreateObjectAsync('CAdESCOM.About');
+    report.plugin.pluginVersion = String(await (await about.PluginVersion).toString());
+    try {
+      report.plugin.cspVersion = String(await (await about.CSPVersion('', GOST_2012_256_PROVIDER_TYPE)).toString());
+      report.plugin.cspName = String(await about.CSPName(GOST_2012_256_PROVIDER_TYPE));
+    } catch (e) {
+      report.warnings.push(`CSP version is not available: ${raw.getLastError(e)}`);
+    }
+  } catch (e) {
+    report.warnings.push(`CAdESCOM.About failed: ${raw.getLastError(e)}`);
+  }
+}
+
+/**
+ * Initializes the plugin (or reuses `window.cadesplugin`) and collects a support report: browser, extension
+ * script attempts with CSP violations, extension version/id, timings, plugin/CSP versions, certificate count and
+ * the final error code. Never throws; failures end up in `errorCode`/`errorMessage`/`warnings`.
+ */
+export async function runCadesDiagnostics(
+  win: Window,
+  doc: Document,
+  options?: CadesDiagnosticsOptions,
+): Promise<CadesDiagnosticsReport> {
+  const startedAt = Date.now();
+  const { extensionInfoTimeoutMs = 1000, countCertificates = true, ...installOptions } = options ?? {};
+
+  let userAgent = '';
+  let pageUrl: string | null = null;
+  try {
+    userAgent = String(win.navigator.userAgent ?? '');
+    pageUrl = String(win.location.href);
+  } catch {
+    // keep defaults
+  }
+
+  const report: CadesDiagnosticsReport = {
+    createdAt: new Date(startedAt).toISOString(),
+    userAgent,
+    browser: detectBrowser(userAgent),
+    pageUrl,
+    scripts: [],
+    loadedUrl: null,
+    extension: { version: null, id: null, manifest: null },
+    timings: { totalMs: 0, initMs: null, handshakeMs: null, nativeHostMs: null },
+    plugin: { pluginVersion: null, cspVersion: null, cspName: null },
+    certificateCount: null,
+    errorCode: null,
+    errorMessage: null,
+    warnings: [],
+  };
+
+  const fail = (e: unknown) => {
+    report.errorCode = isCadesPluginError(e) ? e.code : 'UNKNOWN';
+    report.errorMessage = messageOf(e);
+  };
+
+  try {
+    let raw: CadesPluginGlobal | null = null;
+    try {
+      raw = installCadesPlugin(win, doc, installOptions);
+      await raw;
+    } catch (e) {
+      fail(e);
+    }
+
+    if (raw) {
+      const trace = raw.initTrace;
+      if (trace) {
+        report.scripts = trace.scripts.map((attempt) => ({ ...attempt }));
+        report.loadedUrl = trace.loadedUrl;
+        report.timings.initMs = trace.finishedAt !== null ? trace.finishedAt - trace.startedAt : null;
+        report.timings.handshakeMs = trace.handshakeMs;
+        report.timings.nativeHostMs = trace.nativeHostMs;
+      } else {
+        report.warnings.push('window.cadesplugin was installed by another script; init trace is not available');
+      }
+
+      // The content script answers these even when the API script itself was blocked.
+      const [version, id] = await Promise.all([
+        readExtension(win, 'version', extensionInfoTimeoutMs),
+        readExtension(win, 'id', extensionInfoTimeoutMs),
+      ]);
+      report.extension = { version, id, manifest: id ? getExtensionManifest(id) : null };
+
+      if (report.errorCode === null) {
+        await readAbout(raw, report);
+        if (countCertificates) {
+          try {
+            report.certificateCount = (await listCertificates(raw)).length;
+          } catch (e) {
+            report.warnings.push(`Listing certificates failed: ${messageOf(e)}`);
+          }
+        }
+      }
+    }
+  } catch (e) {
+    if (report.errorCode === null) fail(e);
+    else report.warnings.push(`Diagnostics failed: ${messageOf(e)}`);
+  }
+
+  report.timings.totalMs = Date.now() - startedAt;
+  return report;
+}
+
+const ms = (value: number | null) => (value === null ? 'n/a' : `${value} ms`);
+const orNa = (value: string | number | null) => (value === null ? 'n/a' : String(value));
+
+/**
+ * Renders a report as plain text (for support tickets) or pretty-printed JSON.
+ */
+export function formatCadesDiagnostics(report: CadesDiagnosticsReport, format: 'text' | 'json' = 'text'): string {
+  if (format === 'json') return JSON.stringify(report, null, 2);
+
+  const lines = [
+    `CryptoPro CAdES diagnostics (${report.createdAt})`,
+    `Result: ${report.errorCode ? `FAILED (${report.errorCode}) ${report.errorMessage ?? ''}`.trim() : 'OK'}`,
+    `Browser: ${report.browser.name}${report.browser.major !== null ? ` ${report.browser.major}` : ''}`,
+    `User agent: ${report.userAgent || 'n/a'}`,
+    `Page: ${orNa(report.pageUrl)}`,
+    'Extension API scripts:',
+    ...(report.scripts.length
+      ? report.scripts.map((attempt) => {
+          const csp = attempt.cspViolation
+            ? ` [CSP ${attempt.cspViolation.effectiveDirective || attempt.cspViolation.violatedDirective}]`
+            : '';
+          return `  - ${attempt.status} ${attempt.url} (${attempt.durationMs} ms)${csp}`;
+        })
+      : ['  - none']),
+    `Extension: version ${orNa(report.extension.version)}, id ${orNa(report.extension.id)}, manifest ${orNa(
+      report.extension.manifest,
+    )}`,
+    `Timings: total ${ms(report.timings.totalMs)}, init ${ms(report.timings.initMs)}, handshake ${ms(report.timings.handshakeMs)}, native host ${ms(report.timings.nativeHostMs)}`,
+    `Plugin: ${orNa(report.plugin.pluginVersion)}; CSP: ${orNa(report.plugin.cspVersion)}${report.plugin.cspName ? ` (${report.plugin.cspName})` : ''}`,
+    `Certificates: ${orNa(report.certificateCount)}`,
+  ];
+  if (report.warnings.length) lines.push('Warnings:', ...report.warnings.map((warning) => `  - ${warning}`));
+  return lines.join('\n');
+}
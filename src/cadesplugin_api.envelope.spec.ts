@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { decrypt, encrypt } from './cadesplugin_api.envelope';
+import { createFakeCadesPlugin } from './cadesplugin_api.testing';
+
+const THUMBPRINT = '0123456789ABCDEF0123456789ABCDEF01234567';
+
+// Certificate.Import of the fake plug-in parses real DER; this one only has to read back.
+function importedCertificate() {
+  return {
+    Thumbprint: Promise.resolve('FFFF'),
+    SubjectName: Promise.resolve('CN=FFFF'),
+    IssuerName: Promise.resolve('CN=CA'),
+    SerialNumber: Promise.resolve('01'),
+    ValidFromDate: Promise.resolve('2024-01-01T00:00:00Z'),
+    ValidToDate: Promise.resolve('2030-01-01T00:00:00Z'),
+    HasPrivateKey: async () => false,
+    PublicKey: async () => ({ Algorithm: Promise.resolve({ Value: Promise.resolve('1.2.643.7.1.1.1.1') }) }),
+    ExtendedKeyUsage: async () => ({ IsPresent: Promise.resolve(false) }),
+    Import: vi.fn(async () => undefined),
+  };
+}
+
+// The fake plug-in has no CPEnvelopedData; stores and certificates are its own.
+function fakePlugin() {
+  const fake = createFakeCadesPlugin({ certificates: [{ thumbprint: THUMBPRINT, subjectName: 'CN=Recipient' }] });
+  const added: unknown[] = [];
+  const imported = importedCertificate();
+  const enveloped = {
+    propset_ContentEncoding: vi.fn(async () => undefined),
+    propset_Content: vi.fn(async () => undefined),
+    Recipients: Promise.resolve({ Add: vi.fn(async (c: unknown) => void added.push(c)), Count: Promise.resolve(0) }),
+    Encrypt: vi.fn(async () => 'MIIE\r\nNV=='),
+    Decrypt: vi.fn(async () => undefined),
+    Content: Promise.resolve('aGVsbG8='),
+  };
+  fake.override('CAdESCOM.CPEnvelopedData', () => enveloped);
+  fake.override('CAdESCOM.Certificate', () => imported);
+  return { plugin: Object.assign(fake, { ReleasePluginObjects: vi.fn() }), enveloped, imported, added };
+}
+
+describe('CryptoPro encrypt/decrypt', () => {
+  it('encrypts for store and raw certificate recipients', async () => {
+    const { plugin, enveloped, imported, added } = fakePlugin();
+
+    const result = await encrypt(plugin, 'hello', {
+      recipients: [THUMBPRINT, '-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----'],
+    });
+
+    expect(result.envelope).toBe('MIIENV==');
+    expect(result.recipients.map((r) => r.thumbprint)).toEqual([THUMBPRINT, 'FFFF']);
+    expect(imported.Import).toHaveBeenCalledWith('MIIB');
+    expect(added).toHaveLength(2);
+    expect(enveloped.propset_ContentEncoding).toHaveBeenCalledWith(1);
+    expect(enveloped.propset_Content).toHaveBeenCalledWith('aGVsbG8=');
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+  });
+
+  it('decrypts and maps key/recipient failures to distinct codes', async () => {
+    const { plugin, enveloped } = fakePlugin();
+    expect(await decrypt(plugin, 'MIIE')).toEqual({ content: 'aGVsbG8=', recipients: [] });
+
+    enveloped.Decrypt.mockRejectedValueOnce(new Error('Keyset does not exist (0x80090016)'));
+    await expect(decrypt(plugin, 'MIIE')).rejects.toMatchObject({
+      code: 'DECRYPT_NO_PRIVATE_KEY',
+      details: { hresult: '0x80090016' },
+    });
+
+    enveloped.Decrypt.mockRejectedValueOnce(new Error('Cannot find the certificate and private key to use for decryption. (0x8009200C)'));
+    await expect(decrypt(plugin, 'MIIE')).rejects.toMatchObject({ code: 'DECRYPT_WRONG_RECIPIENT' });
+
+    enveloped.Decrypt.mockRejectedValueOnce(new Error('ASN1 bad tag value met. (0x8009310B)'));
+    await expect(decrypt(plugin, 'MIIE')).rejects.toMatchObject({ code: 'DECRYPT_FAILED' });
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(decrypt(plugin, 'MIIE', { signal: controller.signal })).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+});
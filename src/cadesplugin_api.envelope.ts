@@ -0,0 +1,173 @@
+import { throwIfAborted } from './cadesplugin_api.abort';
+import {
+  CADESCOM_CONTENT_ENCODING,
+  CADESCOM_ENCODING_TYPE,
+  type CadesCertificate,
+  type CadesRecipients,
+} from './cadesplugin_api.cadescom';
+import {
+  findCertificateByThumbprint,
+  readCertificateInfo,
+  type CadesCertificateInfo,
+  type FindCertificateOptions,
+} from './cadesplugin_api.certificates';
+import { createOperationError } from './cadesplugin_api.hresult';
+import type { CadesOperationOptions } from './cadesplugin_api.queue';
+import {
+  stripBase64LineBreaks,
+  toCadesContent,
+  type CadesDataInput,
+  type CadesStringEncoding,
+} from './cadesplugin_api.sign';
+import {
+  CadesPluginError,
+  type CadesPluginErrorCode,
+  type CadesPluginObjectFactory,
+} from './cadesplugin_api.types';
+import { bytesToBase64, isThumbprintLike, pemToBase64 } from './cadesplugin_api.utils';
+
+/**
+ * A recipient is either a SHA-1 thumbprint of a certificate in the store, or a certificate itself
+ * (base64 DER, PEM, or DER bytes) e.g. received from a backend.
+ */
+export type CadesRecipientInput = string | Uint8Array;
+
+export type EncryptOptions = FindCertificateOptions & CadesOperationOptions & {
+  recipients: readonly CadesRecipientInput[];
+
+  /**
+   * Encoding of string data (ignored for binary inputs).
+   */
+  encoding?: CadesStringEncoding;
+};
+
+export type DecryptOptions = CadesOperationOptions;
+
+export type CadesEncryptResult = {
+  /** Base64 CMS EnvelopedData. */
+  envelope: string;
+  recipients: CadesCertificateInfo[];
+};
+
+export type CadesDecryptResult = {
+  /** Base64 of the decrypted bytes (use `base64ToBytes` to get a `Uint8Array`). */
+  content: string;
+  recipients: CadesCertificateInfo[];
+};
+
+async function resolveRecipient(
+  plugin: CadesPluginObjectFactory,
+  recipient: CadesRecipientInput,
+  options: FindCertificateOptions,
+): Promise<CadesCertificate> {
+  if (typeof recipient === 'string' && isThumbprintLike(recipient)) {
+    return findCertificateByThumbprint(plugin, recipient, options);
+  }
+
+  const base64 = typeof recipient === 'string' ? pemToBase64(recipient) : bytesToBase64(recipient);
+  if (!base64) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'recipient certificate is empty');
+  }
+  const certificate = await plugin.CreateObjectAsync('CAdESCOM.Certificate');
+  await certificate.Import(base64);
+  return certificate;
+}
+
+// Decryption HRESULTs that deserve a more specific code than the generic mapping (`KEYSET_NOT_FOUND`, ...).
+const DECRYPT_ERROR_CODES: Record<string, CadesPluginErrorCode> = {
+  '0x80090016': 'DECRYPT_NO_PRIVATE_KEY', // NTE_BAD_KEYSET
+  '0x8009000D': 'DECRYPT_NO_PRIVATE_KEY', // NTE_NO_KEY
+  '0x8009200C': 'DECRYPT_WRONG_RECIPIENT', // CRYPT_E_NO_DECRYPT_CERT
+  '0x8009100B': 'DECRYPT_WRONG_RECIPIENT', // CRYPT_E_RECIPIENT_NOT_FOUND
+};
+
+async function readRecipients(read: () => Promise<CadesRecipients>): Promise<CadesCertificateInfo[]> {
+  const result: CadesCertificateInfo[] = [];
+  try {
+    const recipients = await read();
+    const count = await recipients.Count;
+    for (let i = 1; i <= count; i++) {
+      result.push(await readCertificateInfo(await recipients.Item(i)));
+    }
+  } catch {
+    // Recipient details are informational.
+  }
+  return result;
+}
+
+/**
+ * Encrypts data for one or more recipients with `CAdESCOM.CPEnvelopedData`.
+ */
+export async function encrypt(
+  plugin: CadesPluginObjectFactory,
+  data: CadesDataInput,
+  options: EncryptOptions,
+): Promise<CadesEncryptResult> {
+  if (!options || !Array.isArray(options.recipients) || options.recipients.length === 0) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'recipients must include at least one thumbprint or certificate');
+  }
+  const { content, contentEncoding } = await toCadesContent(data, options.encoding);
+
+  try {
+    const enveloped = await plugin.CreateObjectAsync('CAdESCOM.CPEnvelopedData');
+    await enveloped.propset_ContentEncoding(contentEncoding);
+    await enveloped.propset_Content(content);
+
+    const recipients = await enveloped.Recipients;
+    const infos: CadesCertificateInfo[] = [];
+    for (const recipient of options.recipients) {
+      const certificate = await resolveRecipient(plugin, recipient, options);
+      await recipients.Add(certificate);
+      infos.push(await readCertificateInfo(certificate));
+    }
+
+    const envelope = await enveloped.Encrypt(CADESCOM_ENCODING_TYPE.BASE64);
+    return { envelope: stripBase64LineBreaks(envelope), recipients: infos };
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(
+      plugin,
+      e,
+      'ENCRYPT_FAILED',
+      'CryptoPro encryption failed',
+      { recipients: options.recipients.length },
+    );
+  }
+}
+
+/**
+ * Decrypts a base64 CMS EnvelopedData with a private key from the user's store.
+ * Rejects with `DECRYPT_NO_PRIVATE_KEY`, `DECRYPT_WRONG_RECIPIENT` or `DECRYPT_FAILED`.
+ */
+export async function decrypt(
+  plugin: CadesPluginObjectFactory,
+  envelope: string,
+  options?: DecryptOptions,
+): Promise<CadesDecryptResult> {
+  const message = stripBase64LineBreaks(envelope).trim();
+  if (!message) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'envelope must be a non-empty base64 string');
+  }
+  throwIfAborted(options?.signal);
+
+  try {
+    const enveloped = await plugin.CreateObjectAsync('CAdESCOM.CPEnvelopedData');
+    // ContentEncoding must be set before Decrypt so that Content comes back as base64.
+    await enveloped.propset_ContentEncoding(CADESCOM_CONTENT_ENCODING.BASE64_TO_BINARY);
+    await enveloped.Decrypt(message);
+
+    const content = stripBase64LineBreaks(await enveloped.Content);
+    const recipients = await readRecipients(() => enveloped.Recipients);
+    return { content, recipients };
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(
+      plugin,
+      e,
+      'DECRYPT_FAILED',
+      'CryptoPro decryption failed',
+      undefined,
+      DECRYPT_ERROR_CODES,
+    );
+  }
+}
@@ -0,0 +1,143 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CRYPTOPRO_INSTALL_URLS,
+  detectCryptoProExtension,
+  getExtensionInfo,
+  getExtensionInstallGuide,
+  getExtensionManifest,
+  queryCryptoProExtension,
+} from './cadesplugin_api.extension';
+import { installFakeCryptoProExtension, type FakeCryptoProExtension } from './cadesplugin_api.testing';
+import { CRYPTOPRO_EXTENSION_IDS, detectBrowser } from './cadesplugin_api.utils';
+import { createCadesPluginClient } from './index';
+
+describe('CryptoPro extension queries', () => {
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+    vi.restoreAllMocks();
+  });
+
+  it('reports version, id and manifest flavour', async () => {
+    kit = installFakeCryptoProExtension(window, document, { version: '1.3.5' });
+
+    await expect(getExtensionInfo(window)).resolves.toEqual({
+      id: CRYPTOPRO_EXTENSION_IDS.manifestV3,
+      version: '1.3.5',
+      manifest: 'v3',
+    });
+    expect(getExtensionManifest(CRYPTOPRO_EXTENSION_IDS.opera)).toBe('opera');
+    expect(getExtensionManifest('aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa')).toBeNull();
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    kit = installFakeCryptoProExtension(window, document, { latencyMs: 5 });
+
+    const versions = await Promise.all([
+      queryCryptoProExtension(window, 'version'),
+      queryCryptoProExtension(window, 'version'),
+      queryCryptoProExtension(window, 'version'),
+    ]);
+
+    expect(versions).toEqual(['1.3.2', '1.3.2', '1.3.2']);
+    expect(kit.messages.filter((m) => m === 'cadesplugin_extension_version_request')).toHaveLength(1);
+  });
+
+  it('times out and removes its listener when nobody answers', async () => {
+    const add = vi.spyOn(window, 'addEventListener');
+    const remove = vi.spyOn(window, 'removeEventListener');
+
+    await expect(queryCryptoProExtension(window, 'id', { timeoutMs: 10 })).rejects.toMatchObject({
+      code: 'OPERATION_TIMEOUT',
+      details: { timeoutMs: 10, query: 'id' },
+    });
+
+    const listener = add.mock.calls.find(([type]) => type === 'message')?.[1];
+    expect(listener).toBeTypeOf('function');
+    expect(remove).toHaveBeenCalledWith('message', listener, false);
+  });
+
+  it('rejects with ABORTED and keeps serving the other waiters', async () => {
+    kit = installFakeCryptoProExtension(window, document, { latencyMs: 20 });
+    const controller = new AbortController();
+
+    const aborted = queryCryptoProExtension(window, 'id', { signal: controller.signal });
+    const other = queryCryptoProExtension(window, 'id');
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ code: 'ABORTED' });
+    await expect(other).resolves.toBe(CRYPTOPRO_EXTENSION_IDS.manifestV3);
+    await expect(queryCryptoProExtension(window, 'id', { timeoutMs: 0 })).rejects.toMatchObject({
+      code: 'INVALID_OPTIONS',
+    });
+  });
+
+  it('is available on the client before initialization finishes', async () => {
+    kit = installFakeCryptoProExtension(window, document, { failure: 'handshake-timeout' });
+    const client = createCadesPluginClient(window, document, { logger: () => {}, timeoutMs: 50 });
+    client.ready.catch(() => {});
+
+    await expect(client.getExtensionInfo()).resolves.toMatchObject({ version: '1.3.2', manifest: 'v3' });
+  });
+});
+
+describe('detectCryptoProExtension', () => {
+  const CHROME_UA =
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36';
+  const YANDEX_UA = `${CHROME_UA} YaBrowser/24.1.0.0`;
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+  });
+
+  it('reports the installed variant without loading the extension API', async () => {
+    kit = installFakeCryptoProExtension(window, document, { extensionId: CRYPTOPRO_EXTENSION_IDS.opera });
+
+    const detection = await detectCryptoProExtension(window, { userAgent: YANDEX_UA });
+
+    expect(detection).toMatchObject({
+      installed: true,
+      id: CRYPTOPRO_EXTENSION_IDS.opera,
+      version: '1.3.2',
+      manifest: 'opera',
+      browser: { name: 'YaBrowser', major: 24 },
+      supported: true,
+      install: null,
+    });
+    expect(kit.requestedScripts).toEqual([]);
+    expect((window as any).cadesplugin).toBeUndefined();
+  });
+
+  it('recommends the store of the detected browser when missing', async () => {
+    const detection = await detectCryptoProExtension(window, { userAgent: CHROME_UA, timeoutMs: 10 });
+
+    expect(detection).toMatchObject({ installed: false, id: null, version: null, manifest: null, supported: true });
+    expect(detection.install).toMatchObject({
+      extensionId: CRYPTOPRO_EXTENSION_IDS.manifestV3,
+      url: CRYPTOPRO_INSTALL_URLS.chromeWebStore,
+      pluginUrl: CRYPTOPRO_INSTALL_URLS.plugin,
+    });
+  });
+
+  it('rejects only when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(detectCryptoProExtension(window, { signal: controller.signal })).rejects.toMatchObject({
+      code: 'ABORTED',
+    });
+  });
+
+  it('builds per-browser install guides', () => {
+    const yandex = getExtensionInstallGuide(detectBrowser(YANDEX_UA), 'ru');
+    expect(yandex).toMatchObject({ extensionId: CRYPTOPRO_EXTENSION_IDS.opera, url: CRYPTOPRO_INSTALL_URLS.operaAddons });
+    expect(yandex.instructions[0]).toContain('browser://tune');
+
+    expect(getExtensionInstallGuide({ name: 'Edg', major: 121 }).instructions.join(' ')).toContain('other stores');
+    expect(getExtensionInstallGuide({ name: 'Other', major: null }).instructions[0]).toContain('not supported');
+  });
+});
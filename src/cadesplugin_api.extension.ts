@@ -0,0 +1,322 @@
+import { toAbortError, type CadesAbortOptions } from './cadesplugin_api.abort';
+import { CadesPluginError } from './cadesplugin_api.types';
+import {
+  CRYPTOPRO_EXTENSION_IDS,
+  detectBrowser,
+  parsePostMessageStringResponse,
+  type BrowserSpec,
+} from './cadesplugin_api.utils';
+
+export type CadesExtensionManifest = 'v2' | 'v3' | 'opera';
+
+export type CadesExtensionInfo = {
+  id: string;
+  version: string;
+  /** Which of the known CryptoPro extensions answered; `null` for an unknown (custom) extension id. */
+  manifest: CadesExtensionManifest | null;
+};
+
+export type CadesExtensionQueryOptions = CadesAbortOptions & {
+  /**
+   * How long to wait for the extension's answer (defaults to 3000ms). The content script answers right away when
+   * the extension is installed, so a timeout usually means it is missing or disabled.
+   */
+  timeoutMs?: number;
+};
+
+export type CadesExtensionQuery = 'version' | 'id';
+
+export type CadesExtensionInstallGuide = {
+  /** Extension id the browser should end up with. */
+  extensionId: string;
+  storeName: string;
+  /** Store page of the extension. */
+  url: string;
+  /** The extension only bridges to the native CAdES Browser Plug-in, which is installed separately. */
+  pluginUrl: string;
+  instructions: readonly string[];
+};
+
+export type CadesExtensionDetectOptions = CadesExtensionQueryOptions & {
+  /** Defaults to `navigator.userAgent`. */
+  userAgent?: string;
+  /** Language of `install.instructions` (defaults to `'en'`). */
+  locale?: 'en' | 'ru';
+};
+
+export type CadesExtensionDetection = {
+  installed: boolean;
+  id: string | null;
+  version: string | null;
+  manifest: CadesExtensionManifest | null;
+  browser: BrowserSpec;
+  /** `false` for browsers the CryptoPro Chromium extension does not support (Firefox, Safari, …). */
+  supported: boolean;
+  /** How to install the extension in the detected browser; `null` when it is installed. */
+  install: CadesExtensionInstallGuide | null;
+};
+
+type Waiter = { resolve: (value: string) => void };
+
+type PendingQuery = { waiters: Set<Waiter>; stop: () => void };
+
+const DEFAULT_TIMEOUT_MS = 3_000;
+const DETECT_TIMEOUT_MS = 1_000;
+
+export const CRYPTOPRO_INSTALL_URLS = {
+  chromeWebStore: `https://chromewebstore.google.com/detail/${CRYPTOPRO_EXTENSION_IDS.manifestV3}`,
+  operaAddons: 'https://addons.opera.com/extensions/details/cryptopro-extension-for-cades-browser-plug-in/',
+  plugin: 'https://www.cryptopro.ru/products/cades/plugin',
+} as const;
+
+const INSTRUCTIONS = {
+  en: {
+    chrome: [
+      'Open the Chrome Web Store page and click "Add to Chrome".',
+      'Install CryptoPro CSP and the CAdES Browser Plug-in if they are not installed yet.',
+      'Reload this page.',
+    ],
+    edge: [
+      'Open the Chrome Web Store page and click "Allow extensions from other stores" when Edge asks.',
+      'Click "Get", then "Add extension".',
+      'Install CryptoPro CSP and the CAdES Browser Plug-in if they are not installed yet.',
+      'Reload this page.',
+    ],
+    opera: [
+      'Open the Opera add-ons page and click "Add to Opera".',
+      'Install CryptoPro CSP and the CAdES Browser Plug-in if they are not installed yet.',
+      'Reload this page.',
+    ],
+    yandex: [
+      'Open browser://tune and turn on "КриптоПро ЭЦП" in the add-ons catalog, or use the Opera add-ons page.',
+      'Install CryptoPro CSP and the CAdES Browser Plug-in if they are not installed yet.',
+      'Reload this page.',
+    ],
+    other: [
+      'This browser is not supported by the CryptoPro extension: use Chrome, Edge, Opera or Yandex Browser.',
+      'Install CryptoPro CSP and the CAdES Browser Plug-in if they are not installed yet.',
+    ],
+  },
+  ru: {
+    chrome: [
+      'Откройте страницу расширения в Chrome Web Store и нажмите «Установить».',
+      'Установите КриптоПро CSP и КриптоПро ЭЦП Browser plug-in, если они еще не установлены.',
+      'Перезагрузите эту страницу.',
+    ],
+    edge: [
+      'Откройте страницу расширения в Chrome Web Store и нажмите «Разрешить расширения из других магазинов».',
+      'Нажмите «Получить», затем «Добавить расширение».',
+      'Установите КриптоПро CSP и КриптоПро ЭЦП Browser plug-in, если они еще не установлены.',
+      'Перезагрузите эту страницу.',
+    ],
+    opera: [
+      'Откройте страницу расширения в каталоге Opera и нажмите «Добавить в Opera».',
+      'Установите КриптоПро CSP и КриптоПро ЭЦП Browser plug-in, если они еще не установлены.',
+      'Перезагрузите эту страницу.',
+    ],
+    yandex: [
+      'Откройте browser://tune и включите «КриптоПро ЭЦП» в каталоге дополнений или установите его из каталога Opera.',
+      'Установите КриптоПро CSP и КриптоПро ЭЦП Browser plug-in, если они еще не установлены.',
+      'Перезагрузите эту страницу.',
+    ],
+    other: [
+      'Браузер не поддерживается расширением КриптоПро: используйте Chrome, Edge, Opera или Яндекс Браузер.',
+      'Установите КриптоПро CSP и КриптоПро ЭЦП Browser plug-in, если они еще не установлены.',
+    ],
+  },
+} as const;
+
+const MANIFESTS: Readonly<Record<string, CadesExtensionManifest>> = {
+  [CRYPTOPRO_EXTENSION_IDS.manifestV2]: 'v2',
+  [CRYPTOPRO_EXTENSION_IDS.manifestV3]: 'v3',
+  [CRYPTOPRO_EXTENSION_IDS.opera]: 'opera',
+};
+
+// The extension protocol has no request ids: answers go to every listener. Concurrent queries of the same kind
+// therefore share one request and one listener, and every caller gets the same answer.
+const inFlight = new WeakMap<Window, Map<CadesExtensionQuery, PendingQuery>>();
+
+function windowOrigin(win: Window): string | null {
+  try {
+    return win.location.origin;
+  } catch {
+    return null;
+  }
+}
+
+function startQuery(win: Window, query: CadesExtensionQuery, queries: Map<CadesExtensionQuery, PendingQuery>) {
+  const origin = windowOrigin(win);
+  const pending: PendingQuery = {
+    waiters: new Set(),
+    stop: () => {
+      win.removeEventListener('message', onMessage, false);
+      if (queries.get(query) === pending) queries.delete(query);
+    },
+  };
+
+  function onMessage(event: MessageEvent) {
+    if (event.source !== win) return;
+    if (origin && event.origin !== origin) return;
+    const value = parsePostMessageStringResponse(event.data, `cadesplugin_extension_${query}_response:`);
+    if (!value) return;
+
+    pending.stop();
+    for (const waiter of [...pending.waiters]) waiter.resolve(value);
+  }
+
+  queries.set(query, pending);
+  win.addEventListener('message', onMessage, false);
+  win.postMessage(`cadesplugin_extension_${query}_request`, '*');
+  return pending;
+}
+
+/**
+ * Asks the CryptoPro extension's content script for its version or id. Rejects with `OPERATION_TIMEOUT` when
+ * nobody answers and with `ABORTED` when `signal` fires; the message listener is removed in every case.
+ */
+export function queryCryptoProExtension(
+  win: Window,
+  query: CadesExtensionQuery,
+  options?: CadesExtensionQueryOptions,
+): Promise<string> {
+  const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  if (typeof timeoutMs !== 'number' || !Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    return Promise.reject(
+      new CadesPluginError('INVALID_OPTIONS', 'timeoutMs must be a finite positive number', { timeoutMs }),
+    );
+  }
+  const signal = options?.signal;
+  if (signal?.aborted) return Promise.reject(toAbortError(signal));
+
+  return new Promise<string>((resolve, reject) => {
+    let queries = inFlight.get(win);
+    if (!queries) inFlight.set(win, (queries = new Map()));
+    const pending = queries.get(query) ?? startQuery(win, query, queries);
+
+    const finish = () => {
+      win.clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      pending.waiters.delete(waiter);
+    };
+    const fail = (error: CadesPluginError) => {
+      finish();
+      // The last waiter to give up also stops listening.
+      if (pending.waiters.size === 0) pending.stop();
+      reject(error);
+    };
+    const onAbort = () => fail(toAbortError(signal!));
+
+    const waiter: Waiter = {
+      resolve: (value) => {
+        finish();
+        resolve(value);
+      },
+    };
+    pending.waiters.add(waiter);
+
+    const timer = win.setTimeout(
+      () =>
+        fail(
+          new CadesPluginError('OPERATION_TIMEOUT', `CryptoPro extension did not answer the ${query} request`, {
+            timeoutMs,
+            query,
+          }),
+        ),
+      timeoutMs,
+    );
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+export function getExtensionManifest(id: string): CadesExtensionManifest | null {
+  return MANIFESTS[id.toLowerCase()] ?? null;
+}
+
+/**
+ * Version and id of the installed CryptoPro extension. Works before (and without) plugin initialization: the
+ * content script answers even when the API script is blocked by CSP.
+ */
+export async function getExtensionInfo(
+  win: Window,
+  options?: CadesExtensionQueryOptions,
+): Promise<CadesExtensionInfo> {
+  const [version, id] = await Promise.all([
+    queryCryptoProExtension(win, 'version', options),
+    queryCryptoProExtension(win, 'id', options),
+  ]);
+  return { id, version, manifest: getExtensionManifest(id) };
+}
+
+/**
+ * Where and how to install the CryptoPro extension in `browser`. Opera and Yandex Browser take the Opera catalog
+ * build, Chrome, Edge and other Chromium browsers the Chrome Web Store one.
+ */
+export function getExtensionInstallGuide(
+  browser: BrowserSpec,
+  locale: 'en' | 'ru' = 'en',
+): CadesExtensionInstallGuide {
+  const instructions = INSTRUCTIONS[locale] ?? INSTRUCTIONS.en;
+  const opera = {
+    extensionId: CRYPTOPRO_EXTENSION_IDS.opera,
+    storeName: 'Opera add-ons',
+    url: CRYPTOPRO_INSTALL_URLS.operaAddons,
+    pluginUrl: CRYPTOPRO_INSTALL_URLS.plugin,
+  };
+  const chrome = {
+    extensionId: CRYPTOPRO_EXTENSION_IDS.manifestV3,
+    storeName: 'Chrome Web Store',
+    url: CRYPTOPRO_INSTALL_URLS.chromeWebStore,
+    pluginUrl: CRYPTOPRO_INSTALL_URLS.plugin,
+  };
+
+  switch (browser.name) {
+    case 'Opera':
+      return { ...opera, instructions: instructions.opera };
+    case 'YaBrowser':
+      return { ...opera, instructions: instructions.yandex };
+    case 'Edg':
+      return { ...chrome, instructions: instructions.edge };
+    case 'Chrome':
+      return { ...chrome, instructions: instructions.chrome };
+    default:
+      return { ...chrome, instructions: instructions.other };
+  }
+}
+
+function readUserAgent(win: Window): string {
+  try {
+    return String(win.navigator.userAgent ?? '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Checks whether the CryptoPro extension is installed without loading its API script or starting the plugin: only
+ * the content script's version/id requests are posted. A missing extension is not an error (`installed: false`
+ * after `timeoutMs`, 1000ms by default); `signal` still rejects with `ABORTED`.
+ */
+export async function detectCryptoProExtension(
+  win: Window,
+  options?: CadesExtensionDetectOptions,
+): Promise<CadesExtensionDetection> {
+  const browser = detectBrowser(options?.userAgent ?? readUserAgent(win));
+  const queryOptions = { timeoutMs: options?.timeoutMs ?? DETECT_TIMEOUT_MS, signal: options?.signal };
+  const answer = (query: CadesExtensionQuery) =>
+    queryCryptoProExtension(win, query, queryOptions).catch((e: unknown) => {
+      if (e instanceof CadesPluginError && e.code === 'OPERATION_TIMEOUT') return null;
+      throw e;
+    });
+
+  const [id, version] = await Promise.all([answer('id'), answer('version')]);
+  const installed = id !== null || version !== null;
+  return {
+    installed,
+    id,
+    version,
+    manifest: id === null ? null : getExtensionManifest(id),
+    browser,
+    supported: browser.name !== 'Other',
+    install: installed ? null : getExtensionInstallGuide(browser, options?.locale),
+  };
+}
@@ -0,0 +1,128 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { CADESCOM_CADES_TYPE, CADESCOM_CERTIFICATE_FIND_TYPE } from './cadesplugin_api.cadescom';
+import {
+  createFluentPlugin,
+  flushPluginWrites,
+  unwrapPluginObject,
+  wrapPluginObject,
+} from './cadesplugin_api.fluent';
+import {
+  createFakeCadesPlugin,
+  installFakeCryptoProExtension,
+  type FakeCryptoProExtension,
+} from './cadesplugin_api.testing';
+import { createCadesPluginClient } from './index';
+
+const certificate = { thumbprint: 'AA11', subjectName: 'CN=Alice', hasPrivateKey: true };
+
+describe('fluent plugin objects', () => {
+  it('chains property reads and method calls with await', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+    const fluent = createFluentPlugin(fake);
+
+    const store = fluent.CreateObjectAsync('CAdESCOM.Store');
+    await store.Open();
+
+    expect(await store.Certificates.Count).toBe(1);
+    expect(await store.Certificates.Item(1).SubjectName).toBe('CN=Alice');
+    const found = await store.Certificates.Find(CADESCOM_CERTIFICATE_FIND_TYPE.SHA1_HASH, 'aa11');
+    expect(await found.Count).toBe(1);
+    expect(await (await found.Item(1)).HasPrivateKey()).toBe(true);
+  });
+
+  it('maps assignments to propset_ calls and unwraps fluent arguments', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+    const fluent = createFluentPlugin(fake);
+
+    const store = await fluent.CreateObjectAsync('CAdESCOM.Store');
+    await store.Open();
+    const cert = await store.Certificates.Item(1);
+
+    const signer = await fluent.CreateObjectAsync('CAdESCOM.CPSigner');
+    signer.Certificate = cert;
+    signer.TSAAddress = 'http://tsa.local/tsp.srf';
+
+    const signedData = await fluent.CreateObjectAsync('CAdESCOM.CadesSignedData');
+    signedData.Content = 'aGVsbG8=';
+    const signature = await signedData.SignCades(signer, CADESCOM_CADES_TYPE.BES);
+
+    expect(typeof signature).toBe('string');
+    expect(await signer.TSAAddress).toBe('http://tsa.local/tsp.srf');
+    expect(await signer.Certificate.Thumbprint).toBe('AA11');
+    expect(await signedData.Content).toBe('aGVsbG8=');
+  });
+
+  it('reports a failed assignment on the next read or flush', async () => {
+    const raw = {
+      Options: Promise.resolve(0),
+      async propset_Options() {
+        throw new Error('read-only in this build');
+      },
+    };
+    const object = wrapPluginObject(raw);
+    (object as any).Options = 1;
+    (object as any).Missing = 1;
+
+    await expect(flushPluginWrites(object)).rejects.toThrow('read-only in this build');
+    // The second failure is dropped: only the first one is reported.
+    await expect(flushPluginWrites(object)).resolves.toBeUndefined();
+    await expect((object as any).Options).resolves.toBe(0);
+  });
+
+  it('keeps the writes and errors of separately created objects apart', async () => {
+    const fake = createFakeCadesPlugin();
+    const fluent = createFluentPlugin(fake);
+    const signer = await fluent.CreateObjectAsync('CAdESCOM.CPSigner');
+    const about = await fluent.CreateObjectAsync('CAdESCOM.About');
+
+    (signer as any).Missing = 1;
+
+    await expect(about.Version).resolves.toBe('2.0.15000');
+    await expect(flushPluginWrites(about)).resolves.toBeUndefined();
+    await expect(flushPluginWrites(signer)).rejects.toThrow('propset_Missing');
+  });
+
+  it('gives access to the raw object', async () => {
+    const fake = createFakeCadesPlugin();
+    const fluent = createFluentPlugin(fake);
+    const about = await fluent.CreateObjectAsync('CAdESCOM.About');
+    const raw = unwrapPluginObject(about);
+
+    expect(await raw.Version).toBe('2.0.15000');
+    expect(await about.PluginVersion.toString()).toBe('2.0.15000');
+    expect(() => unwrapPluginObject({} as any)).toThrow(TypeError);
+  });
+
+  it('rejects when the object cannot be created', async () => {
+    const fake = createFakeCadesPlugin();
+    fake.failNext('CAdESCOM.Store', 'Access denied');
+    const fluent = createFluentPlugin(fake);
+
+    await expect(fluent.CreateObjectAsync('CAdESCOM.Store').Certificates.Count).rejects.toThrow('Access denied');
+  });
+});
+
+describe('client.fluent', () => {
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+  });
+
+  it('creates tracked fluent objects through the current plugin', async () => {
+    kit = installFakeCryptoProExtension(window, document, { plugin: { certificates: [certificate] } });
+    const client = createCadesPluginClient(window, document, { logger: () => {} });
+    await client.ready;
+
+    const count = await client.withScope(async () => {
+      const store = client.fluent.CreateObjectAsync('CAdESCOM.Store');
+      await store.Open();
+      return store.Certificates.Count;
+    });
+
+    expect(count).toBe(1);
+    expect(client.objectCounters).toMatchObject({ created: 1, live: 0 });
+  });
+});
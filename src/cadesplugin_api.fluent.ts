@@ -0,0 +1,240 @@
+import type { CadesObjectMap } from './cadesplugin_api.cadescom';
+import type { CadesPluginObjectFactory } from './cadesplugin_api.types';
+
+/**
+ * A plugin value that can be awaited and chained before it resolves: `await store.Certificates.Count`.
+ * Awaiting it gives a `CadesFluent` object (or the primitive value).
+ */
+export type CadesFluentPromise<R> = [R] extends [object] ? CadesFluent<R> & PromiseLike<CadesFluent<R>> : PromiseLike<R>;
+
+/** Method arguments and property values may be fluent objects; they are unwrapped before crossing the bridge. */
+export type CadesFluentArg<P> = P | ([NonNullable<P>] extends [object] ? CadesFluent<NonNullable<P>> : never);
+
+type CadesFluentWrite<P> = [P] extends [object] ? CadesFluent<P> : P;
+
+type CadesFluentMember<V> = V extends (...args: infer A) => infer R
+  ? (...args: { [I in keyof A]: CadesFluentArg<A[I]> }) => CadesFluentPromise<Awaited<R>>
+  : V extends PromiseLike<infer R>
+    ? CadesFluentPromise<R>
+    : V;
+
+type WritableKey<T, K> = K extends string ? (`propset_${K}` extends keyof T ? K : never) : never;
+
+type PropsetValue<T, K> = K extends string
+  ? T[`propset_${K}` & keyof T] extends (value: infer P) => unknown
+    ? P
+    : never
+  : never;
+
+/**
+ * Async/await view of a CAdESCOM object: property reads and method calls return `CadesFluentPromise`s and
+ * assignments to writable properties (`signer.Certificate = cert`) become `propset_<Name>(value)` calls.
+ */
+export type CadesFluent<T> = {
+  readonly [K in keyof T as K extends `propset_${string}` | WritableKey<T, K> ? never : K]: CadesFluentMember<T[K]>;
+} & {
+  -readonly [K in keyof T as WritableKey<T, K>]: CadesFluentMember<T[K]> | CadesFluentWrite<PropsetValue<T, K>>;
+};
+
+export type CadesFluentPlugin = {
+  CreateObjectAsync<K extends keyof CadesObjectMap>(name: K): CadesFluentPromise<CadesObjectMap[K]>;
+  CreateObjectAsync(name: string): CadesFluentPromise<any>;
+};
+
+type FluentContext = {
+  /** Settles when every write queued so far has been sent; never rejects. */
+  writes: Promise<void>;
+  failed: boolean;
+  error: unknown;
+};
+
+const rawObjects = new WeakMap<object, object>();
+const contexts = new WeakMap<object, FluentContext>();
+
+function createContext(): FluentContext {
+  return { writes: Promise.resolve(), failed: false, error: undefined };
+}
+
+function isPluginObject(value: unknown): value is object {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !Array.isArray(value) &&
+    !(value instanceof ArrayBuffer) &&
+    !ArrayBuffer.isView(value)
+  );
+}
+
+/**
+ * Waits for the writes queued before `barrier` was taken. A failed write is reported once, by whichever read, call
+ * or flush gets there first.
+ */
+async function settle(ctx: FluentContext, barrier: Promise<void>): Promise<void> {
+  await barrier;
+  if (!ctx.failed) return;
+  const error = ctx.error;
+  ctx.failed = false;
+  ctx.error = undefined;
+  throw error;
+}
+
+// Must be called synchronously when the value is used, so the barriers it takes do not include later writes.
+async function toArgument(value: unknown): Promise<unknown> {
+  if ((typeof value === 'object' || typeof value === 'function') && value !== null) {
+    const raw = rawObjects.get(value);
+    const ctx = contexts.get(value);
+    if (raw && ctx) {
+      await settle(ctx, ctx.writes);
+      return raw;
+    }
+    if (ctx) return toArgument(await (value as PromiseLike<unknown>));
+  }
+  return value;
+}
+
+function wrapValue(value: unknown, ctx: FluentContext): unknown {
+  return isPluginObject(value) ? wrapObject(value, ctx) : value;
+}
+
+function queueWrite(ctx: FluentContext, objectOf: () => Promise<any>, prop: string, value: unknown): void {
+  const argument = toArgument(value);
+  // Reported through `settle()`, not as an unhandled rejection.
+  argument.catch(() => {});
+  ctx.writes = ctx.writes
+    .then(async () => {
+      const [object, resolved] = await Promise.all([objectOf(), argument]);
+      const setter = object[`propset_${prop}`];
+      if (typeof setter !== 'function') {
+        throw new TypeError(`CryptoPro object property "${prop}" is not writable (no propset_${prop})`);
+      }
+      await setter.call(object, resolved);
+    })
+    .catch((error) => {
+      if (ctx.failed) return;
+      ctx.failed = true;
+      ctx.error = error;
+    });
+}
+
+function createNode(ctx: FluentContext, resolve: () => Promise<unknown>, call?: (args: unknown[]) => unknown): any {
+  let rawValue: Promise<unknown> | undefined;
+  const valueOf = () => (rawValue ??= resolve());
+  const objectOf = async () => {
+    const value = await valueOf();
+    if (!isPluginObject(value)) throw new TypeError('CryptoPro plugin value is not an object');
+    return value as any;
+  };
+
+  const node: any = new Proxy(function fluentNode() {}, {
+    get(_target, prop) {
+      if (prop === 'then') {
+        return (onFulfilled?: (value: unknown) => unknown, onRejected?: (reason: unknown) => unknown) =>
+          valueOf()
+            .then((value) => wrapValue(value, ctx))
+            .then(onFulfilled, onRejected);
+      }
+      if (typeof prop === 'symbol') return undefined;
+      return memberNode(ctx, objectOf, prop);
+    },
+    set(_target, prop, value) {
+      if (typeof prop === 'symbol') return false;
+      queueWrite(ctx, objectOf, prop, value);
+      return true;
+    },
+    apply(_target, _thisArg, args) {
+      if (!call) throw new TypeError('CryptoPro plugin value is not callable');
+      return call(args);
+    },
+  });
+  contexts.set(node, ctx);
+  return node;
+}
+
+function memberNode(ctx: FluentContext, objectOf: () => Promise<any>, prop: string): any {
+  // Reads see the writes queued before the property was accessed.
+  const barrier = ctx.writes;
+  return createNode(
+    ctx,
+    async () => {
+      const object = await objectOf();
+      await settle(ctx, barrier);
+      return object[prop];
+    },
+    (args) => {
+      // Calls start right away, like calls on the raw object.
+      const callBarrier = ctx.writes;
+      const argumentsReady = Promise.all(args.map(toArgument));
+      const result = (async () => {
+        const object = await objectOf();
+        const resolved = await argumentsReady;
+        await settle(ctx, callBarrier);
+        return object[prop](...resolved);
+      })();
+      return createNode(ctx, () => result);
+    },
+  );
+}
+
+function wrapObject(raw: object, ctx: FluentContext): any {
+  const objectOf = () => Promise.resolve(raw);
+  // A blank target: the raw object's own property descriptors must not constrain the traps.
+  const proxy = new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        // Not thenable, so awaiting a resolved object gives the object itself.
+        if (prop === 'then' || typeof prop === 'symbol') return undefined;
+        return memberNode(ctx, objectOf, prop);
+      },
+      set(_target, prop, value) {
+        if (typeof prop === 'symbol') return false;
+        queueWrite(ctx, objectOf, prop, value);
+        return true;
+      },
+    },
+  );
+  rawObjects.set(proxy, raw);
+  contexts.set(proxy, ctx);
+  return proxy;
+}
+
+/**
+ * Wraps a raw CAdESCOM object (e.g. one created with `CreateObjectAsync`) into its fluent view.
+ */
+export function wrapPluginObject<T extends object>(object: T): CadesFluent<T> {
+  return wrapObject(object, createContext());
+}
+
+/**
+ * Escape hatch: the raw object behind a resolved fluent object. Pending assignments are not flushed.
+ */
+export function unwrapPluginObject<T>(object: CadesFluent<T>): T {
+  const raw = rawObjects.get(object as object);
+  if (!raw) throw new TypeError('Not a resolved CryptoPro fluent object');
+  return raw as T;
+}
+
+/**
+ * Waits for the assignments made so far through this object's tree (the object created with `CreateObjectAsync`
+ * and everything read from it) and rethrows the first one that failed.
+ */
+export async function flushPluginWrites(object: CadesFluent<unknown> | CadesFluentPromise<unknown>): Promise<void> {
+  const ctx = contexts.get(object as object);
+  if (!ctx) throw new TypeError('Not a CryptoPro fluent object');
+  await settle(ctx, ctx.writes);
+}
+
+/**
+ * Fluent replacement for `async_spawn` generators. Every created object has its own write queue shared with the
+ * objects read from it; passing an object as an argument waits for its queue, so `signer.Certificate = cert` is
+ * still sent before a later `signedData.SignCades(signer)`.
+ */
+export function createFluentPlugin(plugin: Pick<CadesPluginObjectFactory, 'CreateObjectAsync'>): CadesFluentPlugin {
+  return {
+    CreateObjectAsync: (name: string) => {
+      const created = Promise.resolve().then(() => plugin.CreateObjectAsync(name));
+      return createNode(createContext(), () => created);
+    },
+  };
+}
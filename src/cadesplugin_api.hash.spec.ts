@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { hash, signHash } from './cadesplugin_api.hash';
+import { createFakeCadesPlugin } from './cadesplugin_api.testing';
+
+// The fake's HashedData computes SHA-1 (hex) whatever algorithm is set.
+const SHA1_HELLO_WORLD = '2AAE6C35C94FCFB415DBE95F408B9CE91EE846ED';
+
+const decodeFakeSignature = (signature: string) => JSON.parse(Buffer.from(signature, 'base64').toString('utf8'));
+
+describe('CryptoPro hash', () => {
+  it('hashes a Blob in chunks and reports progress', async () => {
+    const fake = createFakeCadesPlugin();
+    const plugin = Object.assign(fake, { ReleasePluginObjects: vi.fn() });
+    const onProgress = vi.fn();
+
+    const result = await hash(plugin, new Blob(['hello world']), { chunkSize: 4, onProgress });
+
+    expect(result).toEqual({ algorithm: 'GOST_R3411_2012_256', value: SHA1_HELLO_WORLD });
+    expect(onProgress.mock.calls.map(([p]) => p)).toEqual([
+      { processedBytes: 4, totalBytes: 11 },
+      { processedBytes: 8, totalBytes: 11 },
+      { processedBytes: 11, totalBytes: 11 },
+    ]);
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+  });
+
+  it('stops reading chunks once the signal is aborted', async () => {
+    const fake = createFakeCadesPlugin();
+    const plugin = Object.assign(fake, { ReleasePluginObjects: vi.fn() });
+    const controller = new AbortController();
+    const onProgress = vi.fn(() => controller.abort());
+
+    await expect(
+      hash(plugin, 'hello world', { chunkSize: 4, signal: controller.signal, onProgress }),
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+  });
+
+  it('re-chunks a ReadableStream', async () => {
+    const fake = createFakeCadesPlugin();
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const part of ['a', 'bcdef', 'g', 'hi']) controller.enqueue(encoder.encode(part));
+        controller.close();
+      },
+    });
+    const onProgress = vi.fn();
+
+    const result = await hash(fake, stream, { chunkSize: 3, algorithm: 'GOST_R3411_2012_512', onProgress });
+
+    expect(result).toEqual({ algorithm: 'GOST_R3411_2012_512', value: (await hash(fake, 'abcdefghi')).value });
+    expect(onProgress.mock.calls.map(([p]) => p.processedBytes)).toEqual([3, 6, 9]);
+  });
+
+  it('wraps plugin failures into HASH_FAILED', async () => {
+    const fake = createFakeCadesPlugin();
+    fake.failNext('CAdESCOM.HashedData', 'boom');
+
+    await expect(hash(fake, 'data')).rejects.toMatchObject({
+      code: 'HASH_FAILED',
+      details: { algorithm: 'GOST_R3411_2012_256', processedBytes: 0 },
+    });
+  });
+
+  it('signHash: signs a precomputed hash value', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [{ thumbprint: 'AA', subjectName: 'CN=Signer' }] });
+
+    const signature = await signHash(fake, { algorithm: 'GOST_R3411_2012_256', value: 'AB12' }, { thumbprint: 'AA' });
+
+    expect(decodeFakeSignature(signature)).toMatchObject({
+      content: 'AB12',
+      detached: true,
+      signers: [{ thumbprint: 'AA', cadesType: 1 }],
+    });
+    await expect(signHash(fake, { algorithm: 'GOST_R3411_2012_256', value: 'xyz' }, { thumbprint: 'AA' })).rejects.toMatchObject({
+      code: 'INVALID_OPTIONS',
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { throwIfAborted } from './cadesplugin_api.abort';
+import {
+  CADESCOM_CONTENT_ENCODING,
+  CADESCOM_ENCODING_TYPE,
+  CADESCOM_HASH_ALGORITHM,
+  type CadesHashedData,
+} from './cadesplugin_api.cadescom';
+import { createOperationError } from './cadesplugin_api.hresult';
+import type { CadesOperationOptions } from './cadesplugin_api.queue';
+import {
+  createSigner,
+  stripBase64LineBreaks,
+  validateSignOptions,
+  type SignCadesOptions,
+} from './cadesplugin_api.sign';
+import { CadesPluginError, type CadesPluginObjectFactory } from './cadesplugin_api.types';
+import { bytesToBase64 } from './cadesplugin_api.utils';
+
+export type CadesHashAlgorithmName = 'GOST_R3411_2012_256' | 'GOST_R3411_2012_512' | 'GOST_R3411_94';
+
+export type CadesHashInput = string | Uint8Array | ArrayBuffer | Blob | ReadableStream<Uint8Array>;
+
+export type CadesHashProgress = {
+  processedBytes: number;
+  /** Total size when known up-front (`Blob`/`File`, buffers), otherwise `null`. */
+  totalBytes: number | null;
+};
+
+export type HashOptions = CadesOperationOptions & {
+  /**
+   * Hash algorithm (defaults to `GOST_R3411_2012_256`).
+   */
+  algorithm?: CadesHashAlgorithmName;
+
+  /**
+   * Bytes sent to the plugin per `HashedData.Hash` call (defaults to 1 MiB).
+   */
+  chunkSize?: number;
+
+  /**
+   * Called after every chunk has been hashed.
+   */
+  onProgress?: (progress: CadesHashProgress) => void;
+};
+
+/**
+ * Serializable hash value. Pass it to `signHash` to sign without sending the content to the plugin.
+ */
+export type CadesHashResult = {
+  algorithm: CadesHashAlgorithmName;
+  /** Upper-case hex digest as returned by `HashedData.Value`. */
+  value: string;
+};
+
+export type SignHashOptions = Omit<SignCadesOptions, 'detached' | 'encoding'>;
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+const HASH_ALGORITHM_BY_NAME: Record<CadesHashAlgorithmName, number> = {
+  GOST_R3411_2012_256: CADESCOM_HASH_ALGORITHM.CP_GOST_3411_2012_256,
+  GOST_R3411_2012_512: CADESCOM_HASH_ALGORITHM.CP_GOST_3411_2012_512,
+  GOST_R3411_94: CADESCOM_HASH_ALGORITHM.CP_GOST_3411,
+};
+
+function toHashAlgorithm(name: CadesHashAlgorithmName): number {
+  const value = HASH_ALGORITHM_BY_NAME[name];
+  if (value === undefined) {
+    throw new CadesPluginError('INVALID_OPTIONS', `Unsupported hash algorithm: ${String(name)}`, {
+      algorithm: name,
+    });
+  }
+  return value;
+}
+
+function isReadableStream(value: unknown): value is ReadableStream<Uint8Array> {
+  return Boolean(value && typeof (value as any).getReader === 'function');
+}
+
+/**
+ * Splits any supported input into chunks of at most `chunkSize` bytes without reading it all into memory
+ * (except for in-memory inputs, which are already there).
+ */
+async function* readChunks(input: CadesHashInput, chunkSize: number): AsyncGenerator<Uint8Array> {
+  if (typeof input === 'string' || input instanceof Uint8Array || input instanceof ArrayBuffer) {
+    const bytes =
+      typeof input === 'string'
+        ? new TextEncoder().encode(input)
+        : input instanceof ArrayBuffer
+          ? new Uint8Array(input)
+          : input;
+    for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+      yield bytes.subarray(offset, offset + chunkSize);
+    }
+    return;
+  }
+
+  if (isReadableStream(input)) {
+    const reader = input.getReader();
+    let pending: Uint8Array[] = [];
+    let pendingSize = 0;
+    const flush = () => {
+      const out = new Uint8Array(pendingSize);
+      let offset = 0;
+      for (const part of pending) {
+        out.set(part, offset);
+        offset += part.length;
+      }
+      pending = [];
+      pendingSize = 0;
+      return out;
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        let chunk = value;
+        while (pendingSize + chunk.length >= chunkSize) {
+          const take = chunkSize - pendingSize;
+          pending.push(chunk.subarray(0, take));
+          pendingSize += take;
+          yield flush();
+          chunk = chunk.subarray(take);
+        }
+        if (chunk.length > 0) {
+          pending.push(chunk);
+          pendingSize += chunk.length;
+        }
+      }
+      if (pendingSize > 0) yield flush();
+    } finally {
+      reader.releaseLock();
+    }
+    return;
+  }
+
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    for (let offset = 0; offset < input.size; offset += chunkSize) {
+      yield new Uint8Array(await input.slice(offset, offset + chunkSize).arrayBuffer());
+    }
+    return;
+  }
+
+  throw new CadesPluginError(
+    'INVALID_OPTIONS',
+    'input must be a string, Uint8Array, ArrayBuffer, Blob or ReadableStream',
+  );
+}
+
+function getTotalBytes(input: CadesHashInput): number | null {
+  if (typeof input === 'string') return null;
+  if (input instanceof Uint8Array || input instanceof ArrayBuffer) return input.byteLength;
+  if (typeof Blob !== 'undefined' && input instanceof Blob) return input.size;
+  return null;
+}
+
+async function createHashedData(
+  plugin: CadesPluginObjectFactory,
+  algorithm: number,
+): Promise<CadesHashedData> {
+  const hashedData = await plugin.CreateObjectAsync('CAdESCOM.HashedData');
+  await hashedData.propset_Algorithm(algorithm);
+  await hashedData.propset_DataEncoding(CADESCOM_CONTENT_ENCODING.BASE64_TO_BINARY);
+  return hashedData;
+}
+
+/**
+ * Hashes the input with `CAdESCOM.HashedData`, feeding it to the plugin chunk by chunk.
+ */
+export async function hash(
+  plugin: CadesPluginObjectFactory,
+  input: CadesHashInput,
+  options?: HashOptions,
+): Promise<CadesHashResult> {
+  const opts = options ?? {};
+  const algorithmName = opts.algorithm ?? 'GOST_R3411_2012_256';
+  const algorithm = toHashAlgorithm(algorithmName);
+
+  const chunkSize = opts.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'chunkSize must be a positive integer', { chunkSize });
+  }
+
+  const totalBytes = getTotalBytes(input);
+  let processedBytes = 0;
+
+  try {
+    const hashedData = await createHashedData(plugin, algorithm);
+
+    let hashedAnything = false;
+    for await (const chunk of readChunks(input, chunkSize)) {
+      // Stop reading the input between chunks; the caller has already been rejected.
+      throwIfAborted(opts.signal);
+      await hashedData.Hash(bytesToBase64(chunk));
+      hashedAnything = true;
+      processedBytes += chunk.length;
+      opts.onProgress?.({ processedBytes, totalBytes });
+    }
+    if (!hashedAnything) {
+      // Empty input still has a well-defined digest.
+      await hashedData.Hash('');
+    }
+
+    return { algorithm: algorithmName, value: String(await hashedData.Value).toUpperCase() };
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(
+      plugin,
+      e,
+      'HASH_FAILED',
+      'CryptoPro hashing failed',
+      { algorithm: algorithmName, processedBytes },
+    );
+  }
+}
+
+/**
+ * Creates a detached CAdES signature from a precomputed hash (`CadesSignedData.SignHash`).
+ * The hash algorithm must match the signing key (GOST R 34.11-2012 256/512 for GOST 2012 keys).
+ */
+export async function signHash(
+  plugin: CadesPluginObjectFactory,
+  hashResult: CadesHashResult,
+  options: SignHashOptions,
+): Promise<string> {
+  if (!hashResult || typeof hashResult.value !== 'string' || !/^[0-9a-f]+$/i.test(hashResult.value)) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'hash value must be a hex string');
+  }
+  const cadesType = validateSignOptions(options);
+  const algorithm = toHashAlgorithm(hashResult.algorithm);
+
+  try {
+    const hashedData = await createHashedData(plugin, algorithm);
+    await hashedData.SetHashValue(hashResult.value);
+
+    const signer = await createSigner(plugin, options);
+    const signedData = await plugin.CreateObjectAsync('CAdESCOM.CadesSignedData');
+    const signature = await signedData.SignHash(hashedData, signer, cadesType, CADESCOM_ENCODING_TYPE.BASE64);
+    return stripBase64LineBreaks(signature);
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(
+      plugin,
+      e,
+      'SIGN_FAILED',
+      'CryptoPro hash signing failed',
+      { thumbprint: options.thumbprint, algorithm: hashResult.algorithm },
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createOperationError,
+  describeOperationError,
+  parseCadesError,
+  parseCadesHresult,
+} from './cadesplugin_api.hresult';
+import { CadesPluginError, isCadesOperationError, isCadesPluginError } from './cadesplugin_api.types';
+
+const plugin = { getLastError: (e: unknown) => String((e as any)?.message ?? e) };
+
+describe('HRESULT parsing', () => {
+  it('extracts HRESULTs from messages and ActiveX-style numbers', () => {
+    expect(parseCadesHresult('Отменено пользователем. (0x8010006e)')).toBe('0x8010006E');
+    expect(parseCadesHresult(new Error('Error code: 0x800B010A'))).toBe('0x800B010A');
+    expect(parseCadesHresult({ message: 'Keyset does not exist', number: -2146893802 })).toBe('0x80090016');
+    expect(parseCadesHresult('0x123')).toBeNull();
+    expect(parseCadesHresult(undefined)).toBeNull();
+  });
+
+  it.each([
+    ['The operation was canceled by the user. (0x8010006E)', 'USER_CANCELLED'],
+    ['The action was cancelled by the user.', 'USER_CANCELLED'],
+    ['Действие было отменено пользователем.', 'USER_CANCELLED'],
+    ['The card cannot be accessed because the wrong PIN was presented. (0x8010006B)', 'PIN_INCORRECT'],
+    ['Введен неверный PIN-код.', 'PIN_INCORRECT'],
+    ['Набор ключей не существует. (0x80090016)', 'KEYSET_NOT_FOUND'],
+    ['A certificate chain could not be built to a trusted root authority. (0x800B010A)', 'CERT_CHAIN_UNTRUSTED'],
+    ['The root certificate is a testing certificate. (0x800B010D)', 'CERT_CHAIN_UNTRUSTED'],
+    ['The certificate was explicitly marked as untrusted by the user. (0x800B0111)', 'CERT_CHAIN_UNTRUSTED'],
+    ['A required certificate is not within its validity period. (0x800B0101)', 'CERT_EXPIRED'],
+    ['The certificate is revoked. (0x80092010)', 'CERT_REVOKED'],
+    ['The server name or address could not be resolved (0x80072EE7)', 'TSA_UNAVAILABLE'],
+    ['Срок действия лицензии на КриптоПро CSP истек.', 'LICENSE_EXPIRED'],
+    ['The TSP license has expired.', 'LICENSE_EXPIRED'],
+    ['Failed to get a response from the time-stamp server.', 'TSA_UNAVAILABLE'],
+    ['Ошибка при обращении к службе штампов времени.', 'TSA_UNAVAILABLE'],
+    ['Invalid signature. (0x80091004)', null],
+  ])('%s → %s', (message, code) => {
+    expect(parseCadesError(message).code).toBe(code);
+  });
+});
+
+describe('CadesOperationError', () => {
+  it('keeps the original message, HRESULT and operation code', () => {
+    const cause = new Error('Keyset does not exist (0x80090016)');
+    const error = createOperationError(plugin, cause, 'SIGN_FAILED', 'CryptoPro signing failed', { thumbprint: 'AA' });
+
+    expect(error).toBeInstanceOf(CadesPluginError);
+    expect(error).toMatchObject({
+      name: 'CadesOperationError',
+      code: 'KEYSET_NOT_FOUND',
+      hresult: '0x80090016',
+      message: 'CryptoPro signing failed: Keyset does not exist (0x80090016)',
+      details: {
+        thumbprint: 'AA',
+        hresult: '0x80090016',
+        originalCode: 'SIGN_FAILED',
+        originalMessage: 'Keyset does not exist (0x80090016)',
+      },
+    });
+    expect(error.cause).toBe(cause);
+    expect(isCadesOperationError(error)).toBe(true);
+    expect(isCadesPluginError(error)).toBe(true);
+  });
+
+  it('lets operations refine codes and falls back to the operation code', () => {
+    const refined = createOperationError(
+      plugin,
+      new Error('(0x80090016)'),
+      'DECRYPT_FAILED',
+      'CryptoPro decryption failed',
+      undefined,
+      { '0x80090016': 'DECRYPT_NO_PRIVATE_KEY' },
+    );
+    expect(refined.code).toBe('DECRYPT_NO_PRIVATE_KEY');
+
+    const generic = createOperationError(plugin, new Error('boom'), 'HASH_FAILED', 'CryptoPro hashing failed');
+    expect(generic).toMatchObject({ code: 'HASH_FAILED', hresult: null });
+  });
+
+  it('reads the HRESULT from the exception when getLastError has none', () => {
+    const error = createOperationError(
+      { getLastError: () => 'Unknown error' },
+      { number: -2146762486 },
+      'SIGN_FAILED',
+      'CryptoPro signing failed',
+    );
+    expect(error).toMatchObject({ code: 'CERT_CHAIN_UNTRUSTED', hresult: '0x800B010A' });
+  });
+
+  it('describes failures for reports', () => {
+    expect(describeOperationError(plugin, new Error('Expired (0x800B0101)'), 'VERIFY_FAILED')).toEqual({
+      code: 'CERT_EXPIRED',
+      message: 'Expired (0x800B0101)',
+    });
+  });
+
+  it('guards only operation errors', () => {
+    expect(isCadesOperationError(new CadesPluginError('SIGN_FAILED', 'x'))).toBe(false);
+    expect(isCadesOperationError(new Error('x'))).toBe(false);
+    expect(isCadesOperationError(null)).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  CadesOperationError,
+  type CadesOperationErrorCode,
+  type CadesPluginErrorCode,
+  type CadesPluginErrorDetails,
+  type CadesPluginObjectFactory,
+} from './cadesplugin_api.types';
+
+/**
+ * HRESULTs (upper-case `0x…`) of well-known failures. The same HRESULT may be reported by the CSP, the smart card
+ * subsystem or CryptoAPI; the message text differs between OS, CSP version and locale, the code does not.
+ */
+export const CADES_HRESULT_CODES: Readonly<Record<string, CadesOperationErrorCode>> = {
+  '0x8010006E': 'USER_CANCELLED', // SCARD_W_CANCELLED_BY_USER
+  '0x800704C7': 'USER_CANCELLED', // HRESULT_FROM_WIN32(ERROR_CANCELLED)
+  '0x8010006B': 'PIN_INCORRECT', // SCARD_W_WRONG_CHV
+  '0x80090016': 'KEYSET_NOT_FOUND', // NTE_BAD_KEYSET
+  '0x8009000D': 'KEYSET_NOT_FOUND', // NTE_NO_KEY
+  '0x8009200B': 'KEYSET_NOT_FOUND', // CRYPT_E_NO_KEY_PROPERTY
+  '0x800B010A': 'CERT_CHAIN_UNTRUSTED', // CERT_E_CHAINING
+  '0x800B0109': 'CERT_CHAIN_UNTRUSTED', // CERT_E_UNTRUSTEDROOT
+  '0x800B010D': 'CERT_CHAIN_UNTRUSTED', // CERT_E_UNTRUSTEDTESTROOT
+  '0x800B0111': 'CERT_CHAIN_UNTRUSTED', // TRUST_E_EXPLICIT_DISTRUST
+  '0x800B0101': 'CERT_EXPIRED', // CERT_E_EXPIRED
+  '0x800B010C': 'CERT_REVOKED', // CERT_E_REVOKED
+  '0x80092010': 'CERT_REVOKED', // CRYPT_E_REVOKED
+  // WinINet errors only come up when the plugin talks to a TSA (or OCSP responder) over HTTP.
+  '0x80072EE2': 'TSA_UNAVAILABLE', // ERROR_INTERNET_TIMEOUT
+  '0x80072EE7': 'TSA_UNAVAILABLE', // ERROR_INTERNET_NAME_NOT_RESOLVED
+  '0x80072EFD': 'TSA_UNAVAILABLE', // ERROR_INTERNET_CANNOT_CONNECT
+  '0x80072EFE': 'TSA_UNAVAILABLE', // ERROR_INTERNET_CONNECTION_ABORTED
+};
+
+// Fallbacks for messages without a recognized HRESULT. Expired CSP/TSP licenses and TSA failures are reported with
+// generic HRESULTs, so their text is the only signal.
+const MESSAGE_PATTERNS: ReadonlyArray<readonly [RegExp, CadesOperationErrorCode]> = [
+  [/cancel+ed by (?:the )?user|отмен\S* пользовател/i, 'USER_CANCELLED'],
+  [/(?:wrong|incorrect|invalid) pin|неверн\S* (?:pin|пин)|неправильн\S* (?:pin|пин)/i, 'PIN_INCORRECT'],
+  [/licen[cs]e\S*.{0,40}expired|expired.{0,40}licen[cs]e|лицензи\S*.{0,40}истек|истек\S*.{0,40}лицензи/i, 'LICENSE_EXPIRED'],
+  [/(?:time[- ]?stamp\S*|tsp)\s+(?:server|service|authority)/i, 'TSA_UNAVAILABLE'],
+  [/(?:сервер|служб)\S*\s+(?:штамп\S* времени|tsp)/i, 'TSA_UNAVAILABLE'],
+];
+
+export type CadesParsedError = {
+  hresult: string | null;
+  /** `null` when the failure is not one of the recognized reasons. */
+  code: CadesOperationErrorCode | null;
+  message: string;
+};
+
+function messageOf(error: unknown): string {
+  if (typeof error === 'string') return error;
+  if (error && typeof error === 'object' && typeof (error as any).message === 'string') return (error as any).message;
+  return error === undefined || error === null ? '' : String(error);
+}
+
+/**
+ * Extracts the HRESULT from a plugin error (a `getLastError` string or the thrown value). Also understands the
+ * signed decimal `number` of ActiveX-style exceptions.
+ */
+export function parseCadesHresult(error: unknown): string | null {
+  const hex = messageOf(error).match(/0x([0-9a-f]{8})(?![0-9a-f])/i)?.[1];
+  if (hex) return `0x${hex.toUpperCase()}`;
+  const number = error && typeof error === 'object' ? (error as any).number : undefined;
+  if (typeof number === 'number' && Number.isInteger(number) && number < 0) {
+    return `0x${(number >>> 0).toString(16).toUpperCase().padStart(8, '0')}`;
+  }
+  return null;
+}
+
+/**
+ * Recognizes the failure reason of a plugin error: by HRESULT first, then by well-known English/Russian messages.
+ */
+export function parseCadesError(error: unknown): CadesParsedError {
+  const message = messageOf(error);
+  const hresult = parseCadesHresult(error);
+  const byHresult = hresult ? CADES_HRESULT_CODES[hresult] : undefined;
+  const code = byHresult ?? MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ?? null;
+  return { hresult, code, message };
+}
+
+type CadesOperationFailure = { code: CadesPluginErrorCode; hresult: string | null; message: string };
+
+function classifyFailure(
+  plugin: Pick<CadesPluginObjectFactory, 'getLastError'>,
+  error: unknown,
+  fallbackCode: CadesPluginErrorCode,
+  codes: Readonly<Record<string, CadesPluginErrorCode>> | undefined,
+): CadesOperationFailure {
+  const message = plugin.getLastError(error);
+  const parsed = parseCadesError(message);
+  // `getLastError` falls back to a generic text on some hosts; the exception may still carry the HRESULT.
+  const hresult = parsed.hresult ?? parseCadesHresult(error);
+  const code =
+    (hresult && codes?.[hresult]) || (hresult && CADES_HRESULT_CODES[hresult]) || parsed.code || fallbackCode;
+  return { code, hresult, message };
+}
+
+/**
+ * Builds the error of a failed plugin call. `codes` lets an operation refine HRESULTs further (e.g. decryption
+ * maps `NTE_BAD_KEYSET` to `DECRYPT_NO_PRIVATE_KEY`).
+ */
+export function createOperationError(
+  plugin: Pick<CadesPluginObjectFactory, 'getLastError'>,
+  error: unknown,
+  fallbackCode: CadesPluginErrorCode,
+  messagePrefix: string,
+  details?: CadesPluginErrorDetails,
+  codes?: Readonly<Record<string, CadesPluginErrorCode>>,
+): CadesOperationError {
+  const { code, hresult, message } = classifyFailure(plugin, error, fallbackCode, codes);
+  return new CadesOperationError(
+    code,
+    `${messagePrefix}: ${message}`,
+    { ...details, hresult, originalCode: fallbackCode, originalMessage: message },
+    { cause: error },
+  );
+}
+
+/**
+ * `{ code, message }` of a failed plugin call, for reports that describe failures instead of throwing.
+ */
+export function describeOperationError(
+  plugin: Pick<CadesPluginObjectFactory, 'getLastError'>,
+  error: unknown,
+  fallbackCode: CadesPluginErrorCode,
+): { code: CadesPluginErrorCode; message: string } {
+  const { code, message } = classifyFailure(plugin, error, fallbackCode, undefined);
+  return { code, message };
+}
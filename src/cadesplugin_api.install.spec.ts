@@ -0,0 +1,232 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CRYPTOPRO_EXTENSION_IDS,
+  createCadesPluginClient,
+  disposeCadesPlugin,
+  initCadesPluginClient,
+  installCadesPlugin,
+  type CadesPluginLifecycleEvent,
+} from './index';
+import { installFakeCryptoProExtension, type FakeCryptoProExtension } from './cadesplugin_api.testing';
+
+const THUMBPRINT = '0123456789ABCDEF0123456789ABCDEF01234567';
+
+const extensionScripts = () => document.head.querySelectorAll('script[src^="chrome-extension://"]');
+
+describe('installCadesPlugin lifecycle', () => {
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+  });
+
+  it('dispose() during loading rejects with DISPOSED and clears the global', async () => {
+    kit = installFakeCryptoProExtension(window, document, { failure: 'load-timeout' });
+    const raw = installCadesPlugin(window, document, { logger: () => {}, timeoutMs: 50 });
+    expect(window.cadesplugin).toBe(raw);
+    expect(extensionScripts()).toHaveLength(1);
+
+    raw.dispose?.();
+    await expect(raw).rejects.toMatchObject({ code: 'DISPOSED' });
+    expect(window.cadesplugin).toBeUndefined();
+    expect(extensionScripts()).toHaveLength(0);
+    expect(raw.initTrace?.errorCode).toBe('DISPOSED');
+
+    // The load timer is gone: nothing settles or logs later.
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    expect(raw.initTrace?.errorCode).toBe('DISPOSED');
+    expect(kit.requestedScripts).toHaveLength(1);
+  });
+
+  it('timeout before handshake → state stays failed', async () => {
+    kit = installFakeCryptoProExtension(window, document, { latencyMs: 30 });
+    const raw = installCadesPlugin(window, document, { logger: () => {}, timeoutMs: 10, handshakeTimeoutMs: 200 });
+
+    await expect(raw).rejects.toMatchObject({ code: 'PLUGIN_LOAD_TIMEOUT' });
+    // The script and the handshake would have completed by now.
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(raw.state).toBe('failed');
+    expect(raw.lifecycle?.at(-1)).toMatchObject({ type: 'failed', state: 'failed' });
+    expect(kit.messages).not.toContain('cadesplugin_echo_request');
+  });
+
+  it('retry() runs the whole sequence again after a failure', async () => {
+    kit = installFakeCryptoProExtension(window, document, {
+      failure: 'not-installed',
+      plugin: { certificates: [{ thumbprint: THUMBPRINT, subjectName: 'CN=Иванов' }] },
+    });
+    const client = createCadesPluginClient(window, document, { logger: () => {} });
+    await expect(client.ready).rejects.toMatchObject({ code: 'EXTENSION_API_LOAD_FAILED' });
+    const failed = client.raw;
+
+    // The user installs the extension and presses "Retry".
+    kit.setFailure(null);
+    await client.retry();
+
+    expect(client.raw).not.toBe(failed);
+    expect(window.cadesplugin).toBe(client.raw);
+    expect((await client.listCertificates()).map((c) => c.thumbprint)).toEqual([THUMBPRINT]);
+  });
+
+  it('dispose() after initialization releases plugin objects', async () => {
+    kit = installFakeCryptoProExtension(window, document);
+    const client = createCadesPluginClient(window, document, { logger: () => {} });
+    await client.ready;
+    // The script of the extension id that failed is gone, the loaded one stays until dispose.
+    const scripts = Array.from(extensionScripts(), (s) => (s as HTMLScriptElement).src);
+    expect(scripts).toEqual([kit.requestedScripts.at(-1)]);
+
+    client.dispose();
+    expect(extensionScripts()).toHaveLength(0);
+    expect(kit.releaseCount).toBe(1);
+    expect(window.cadesplugin).toBeUndefined();
+    expect(() => client.CreateObjectAsync('CAdESCOM.About')).toThrow(
+      expect.objectContaining({ code: 'PLUGIN_OBJECT_MISSING' }),
+    );
+    // Waiting for extension answers after dispose does not leak listeners.
+    const onVersion = vi.fn();
+    client.raw.get_extension_version(onVersion);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(onVersion).not.toHaveBeenCalled();
+
+    await client.reinitialize();
+    expect(await client.CreateObjectAsync('CAdESCOM.About')).toBeTruthy();
+  });
+
+  it('disposeCadesPlugin() handles globals without dispose()', () => {
+    const ReleasePluginObjects = vi.fn();
+    const foreign = { then: () => {}, CreateObjectAsync: () => {}, async_spawn: () => {}, ReleasePluginObjects };
+    (window as any).cadesplugin = foreign;
+
+    disposeCadesPlugin(window);
+    expect(ReleasePluginObjects).toHaveBeenCalledTimes(1);
+    expect(window.cadesplugin).toBeUndefined();
+  });
+
+  it('aborts initialization with ABORTED and cleans up', async () => {
+    kit = installFakeCryptoProExtension(window, document, { failure: 'handshake-timeout' });
+    const controller = new AbortController();
+    const pending = initCadesPluginClient(window, document, { logger: () => {}, signal: controller.signal });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(kit.messages).toContain('cadesplugin_echo_request');
+    controller.abort();
+
+    const error = await pending.catch((e) => e);
+    expect(error).toMatchObject({ code: 'ABORTED' });
+    expect(error.cause).toBe(controller.signal.reason);
+    expect(window.cadesplugin).toBeUndefined();
+  });
+
+  it('rejects right away for an already aborted signal and ignores aborts after ready', async () => {
+    kit = installFakeCryptoProExtension(window, document);
+    const raw = installCadesPlugin(window, document, { logger: () => {}, signal: AbortSignal.abort() });
+    await expect(raw).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(kit.requestedScripts).toEqual([]);
+
+    const controller = new AbortController();
+    const client = await initCadesPluginClient(window, document, { logger: () => {}, signal: controller.signal });
+    controller.abort();
+    expect(window.cadesplugin).toBe(client.raw);
+    await expect(client.listCertificates()).resolves.toEqual([]);
+  });
+
+  it('aborts operations and async_spawn_with_signal', async () => {
+    kit = installFakeCryptoProExtension(window, document);
+    const client = await initCadesPluginClient(window, document, { logger: () => {} });
+
+    await expect(client.listCertificates({ signal: AbortSignal.abort() })).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(kit.plugin.created).toEqual([]);
+
+    const controller = new AbortController();
+    const cleanup = vi.fn();
+    const resumed = vi.fn();
+    const spawned = client.async_spawn_with_signal(controller.signal, function* () {
+      try {
+        yield new Promise((resolve) => setTimeout(resolve, 20));
+        resumed();
+      } finally {
+        cleanup();
+      }
+    });
+    controller.abort();
+
+    await expect(spawned).rejects.toMatchObject({ code: 'ABORTED' });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(resumed).not.toHaveBeenCalled();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects invalid signals', () => {
+    expect(() => installCadesPlugin(window, document, { signal: {} as AbortSignal })).toThrow(
+      expect.objectContaining({ code: 'INVALID_OPTIONS' }),
+    );
+  });
+
+  it('reports every initialization stage with timestamps', async () => {
+    kit = installFakeCryptoProExtension(window, document);
+    const events: CadesPluginLifecycleEvent[] = [];
+    const client = createCadesPluginClient(window, document, {
+      logger: () => {},
+      onStateChange: (e) => events.push(e),
+    });
+    expect(client.state).toBe('loading-script');
+
+    await client.ready;
+    expect(client.state).toBe('ready');
+    expect(events.map((e) => `${e.type}:${e.state}`)).toEqual([
+      'script-loading:loading-script',
+      'script-failed:loading-script',
+      'script-loading:loading-script',
+      'script-loaded:loading-script',
+      'extension-api-found:loading-script',
+      'handshake-started:handshaking',
+      'handshake-completed:handshaking',
+      'native-host-started:native-host',
+      'plugin-object-set:native-host',
+      'native-host-connected:native-host',
+      'ready:ready',
+    ]);
+    expect(events[0]).toMatchObject({ previousState: 'idle', url: kit.requestedScripts[0] });
+    expect(events.every((e, i) => typeof e.at === 'number' && e.at >= (events[i - 1]?.at ?? 0))).toBe(true);
+    expect(client.lifecycle).toEqual(events);
+  });
+
+  it('reports CSP violations and failures, and keeps client listeners across retry()', async () => {
+    kit = installFakeCryptoProExtension(window, document, { failure: 'csp-blocked' });
+    const client = createCadesPluginClient(window, document, {
+      logger: () => {},
+      extensionIds: [CRYPTOPRO_EXTENSION_IDS.manifestV3],
+    });
+    const events: CadesPluginLifecycleEvent[] = [];
+    client.onStateChange((e) => events.push(e));
+
+    await expect(client.ready).rejects.toMatchObject({ code: 'CSP_BLOCKED' });
+    expect(events.map((e) => e.type)).toEqual(['csp-violation', 'script-failed', 'failed']);
+    expect(events[0]).toMatchObject({ violation: { effectiveDirective: 'script-src-elem' } });
+    expect(events[2]).toMatchObject({ state: 'failed', error: { code: 'CSP_BLOCKED' } });
+
+    kit.setFailure(null);
+    events.length = 0;
+    await client.retry();
+    expect(events[0]).toMatchObject({ type: 'disposed', state: 'idle', previousState: 'failed' });
+    expect(events[1]).toMatchObject({ type: 'script-loading', previousState: 'idle' });
+    expect(events.at(-1)?.type).toBe('ready');
+  });
+
+  it('does not let a throwing listener break initialization', async () => {
+    kit = installFakeCryptoProExtension(window, document);
+    const logger = vi.fn();
+    const client = createCadesPluginClient(window, document, {
+      logger,
+      onStateChange: () => {
+        throw new Error('boom');
+      },
+    });
+
+    await client.ready;
+    expect(logger).toHaveBeenCalledWith('error', 'onStateChange listener failed: boom', undefined);
+  });
+});
@@ -1,16 +1,22 @@
+import { toAbortError, withAbortSignal } from './cadesplugin_api.abort';
+import { queryCryptoProExtension, type CadesExtensionQuery } from './cadesplugin_api.extension';
 import {
   CadesPluginError,
+  type CadesCspViolation,
   type CadesPluginErrorCode,
   type CadesPluginGlobal,
+  type CadesPluginInitTrace,
   type CadesPluginInstallOptions,
+  type CadesPluginLifecycleEvent,
+  type CadesPluginLifecycleListener,
   type CadesPluginLogger,
+  type CadesPluginState,
   type LogLevel,
 } from './cadesplugin_api.types';
 import {
   buildCryptoProExtensionApiUrls,
   detectBrowser,
   isCadesPluginLoadedMessage,
-  parsePostMessageStringResponse,
 } from './cadesplugin_api.utils';
 
 type ChromeNmcadesApi = {
@@ -18,6 +24,12 @@ type ChromeNmcadesApi = {
   ReleasePluginObjects?: () => unknown;
 };
 
+type LifecycleStage = CadesPluginLifecycleEvent extends infer E
+  ? E extends CadesPluginLifecycleEvent
+    ? Omit<E, 'state' | 'previousState' | 'at'>
+    : never
+  : never;
+
 type PluginObject = {
   CreateObjectAsync?: (name: string) => unknown;
   getLastError?: () => string;
@@ -39,14 +51,8 @@ function getMessageFromException(exception: unknown): string {
   }
 }
 
-type CspViolationInfo = {
-  blockedURI: string;
-  effectiveDirective: string;
-  violatedDirective: string;
-};
-
 function createCspViolationRecorder(doc: Document) {
-  const violations: CspViolationInfo[] = [];
+  const violations: CadesCspViolation[] = [];
 
   const handler = (event: Event) => {
     const blockedURI = String((event as any)?.blockedURI ?? '');
@@ -61,23 +67,48 @@ function createCspViolationRecorder(doc: Document) {
   doc.addEventListener('securitypolicyviolation', handler as any);
 
   return {
-    findByBlockedUri: (uri: string): CspViolationInfo | null =>
+    findByBlockedUri: (uri: string): CadesCspViolation | null =>
       violations.find((v) => v.blockedURI === uri) ?? null,
     stop: () => doc.removeEventListener('securitypolicyviolation', handler as any),
   };
 }
 
-function loadScript(doc: Document, src: string): Promise<void> {
+function removeScript(script: HTMLScriptElement) {
+  try {
+    script.remove();
+  } catch {
+    // ignore
+  }
+}
+
+function loadScript(
+  doc: Document,
+  src: string,
+  signal: AbortSignal,
+  injected: HTMLScriptElement[],
+): Promise<void> {
   return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
     const script = doc.createElement('script');
     script.type = 'text/javascript';
     script.async = true;
     script.defer = true;
     script.src = src;
 
+    const onAbort = () => {
+      cleanup();
+      removeScript(script);
+      reject(signal.reason);
+    };
+
     const cleanup = () => {
       script.onload = null;
       script.onerror = null;
+      signal.removeEventListener('abort', onAbort);
     };
 
     script.onload = () => {
@@ -87,14 +118,12 @@ function loadScript(doc: Document, src: string): Promise<void> {
 
     script.onerror = () => {
       cleanup();
-      try {
-        script.remove();
-      } catch {
-        // ignore
-      }
+      removeScript(script);
       reject(new Error(`Failed to load script: ${src}`));
     };
 
+    signal.addEventListener('abort', onAbort);
+    injected.push(script);
     doc.head.appendChild(script);
   });
 }
@@ -103,8 +132,19 @@ function waitForMessage(
   win: Window,
   predicate: (event: MessageEvent) => boolean,
   timeoutMs: number,
+  signal: AbortSignal,
 ): Promise<MessageEvent> {
   return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      cleanup();
+      reject(signal.reason);
+    };
+
     const timer = win.setTimeout(() => {
       cleanup();
       reject(new Error('Timed out waiting for CryptoPro extension handshake'));
@@ -124,8 +164,10 @@ function waitForMessage(
     const cleanup = () => {
       win.clearTimeout(timer);
       win.removeEventListener('message', handler as any, false);
+      signal.removeEventListener('abort', onAbort);
     };
 
+    signal.addEventListener('abort', onAbort);
     win.addEventListener('message', handler as any, false);
   });
 }
@@ -235,8 +277,31 @@ export function installCadesPlugin(
     });
   }
 
+  if (
+    opts.signal !== undefined &&
+    (typeof opts.signal !== 'object' || opts.signal === null || typeof opts.signal.addEventListener !== 'function')
+  ) {
+    throw cadesError('INVALID_OPTIONS', 'signal must be an AbortSignal', { signal: opts.signal });
+  }
+
+  if (opts.onStateChange !== undefined && typeof opts.onStateChange !== 'function') {
+    throw cadesError('INVALID_OPTIONS', 'onStateChange must be a function');
+  }
+
   let pluginObject: PluginObject | null = null;
   let settled = false;
+  // Aborted by `dispose()` and `options.signal`: stops script loading and handshake waiting, removes listeners.
+  const lifetime = new AbortController();
+  const injectedScripts: HTMLScriptElement[] = [];
+  const initTrace: CadesPluginInitTrace = {
+    startedAt: Date.now(),
+    finishedAt: null,
+    scripts: [],
+    loadedUrl: null,
+    handshakeMs: null,
+    nativeHostMs: null,
+    errorCode: null,
+  };
   let resolveInit: (() => void) | null = null;
   let rejectInit: ((reason?: unknown) => void) | null = null;
 
@@ -245,15 +310,50 @@ export function installCadesPlugin(
     rejectInit = reject;
   });
 
+  let state: CadesPluginState = 'idle';
+  const lifecycle: CadesPluginLifecycleEvent[] = [];
+  const lifecycleListeners = new Set<CadesPluginLifecycleListener>();
+  if (opts.onStateChange) lifecycleListeners.add(opts.onStateChange);
+
+  const emit = (stage: LifecycleStage, nextState: CadesPluginState = state) => {
+    const event = { ...stage, state: nextState, previousState: state, at: Date.now() } as CadesPluginLifecycleEvent;
+    state = nextState;
+    lifecycle.push(event);
+    for (const listener of [...lifecycleListeners]) {
+      try {
+        listener(event);
+      } catch (e) {
+        // A broken progress UI must not break initialization.
+        cpcsp_console_log(LOG_LEVEL_ERROR, `onStateChange listener failed: ${normalizeErrorForUser(e)}`);
+      }
+    }
+  };
+
+  const onStateChange = (listener: CadesPluginLifecycleListener) => {
+    lifecycleListeners.add(listener);
+    return () => {
+      lifecycleListeners.delete(listener);
+    };
+  };
+
   const resolveOnce = () => {
     if (settled) return;
     settled = true;
+    opts.signal?.removeEventListener('abort', onSignalAbort);
+    initTrace.finishedAt = Date.now();
+    emit({ type: 'ready', totalMs: initTrace.finishedAt - initTrace.startedAt }, 'ready');
     resolveInit?.();
   };
 
   const rejectOnce = (reason?: unknown) => {
     if (settled) return;
     settled = true;
+    opts.signal?.removeEventListener('abort', onSignalAbort);
+    initTrace.finishedAt = Date.now();
+    initTrace.errorCode = reason instanceof CadesPluginError ? reason.code : 'UNKNOWN';
+    const error =
+      reason instanceof CadesPluginError ? reason : cadesError('UNKNOWN', normalizeErrorForUser(reason), undefined, reason);
+    emit({ type: 'failed', totalMs: initTrace.finishedAt - initTrace.startedAt, error }, 'failed');
     rejectInit?.(reason);
   };
 
@@ -286,20 +386,23 @@ export function installCadesPlugin(
   };
 
   const set_pluginObject = (obj: unknown) => {
+    if (lifetime.signal.aborted) return;
     pluginObject = (obj ?? null) as any;
+    if (pluginObject) emit({ type: 'plugin-object-set' });
   };
 
-  const CreateObjectAsync = (name: string) => {
+  const CreateObjectAsync = (name: string): any => {
     if (!pluginObject?.CreateObjectAsync) {
       throw cadesError('PLUGIN_OBJECT_MISSING', 'CryptoPro plugin is not ready (plugin object is missing)');
     }
     return pluginObject.CreateObjectAsync(name);
   };
 
-  const async_spawn = async function <T>(
+  const spawn = <T>(
+    signal: AbortSignal | undefined,
     generatorFunc: (args: any[]) => Generator<any, T, any>,
-    ...args: any[]
-  ): Promise<T> {
+    args: any[],
+  ): Promise<T> => {
     // Upstream `cadesplugin_api.js` passes all args (except generatorFunc) as a single array argument.
     // The extension scripts (nmcades_plugin_api.js) rely on this calling convention.
     const generator = generatorFunc(args);
@@ -307,6 +410,11 @@ export function installCadesPlugin(
     const step = (verb: 'next' | 'throw', arg?: any): Promise<any> => {
       let result: IteratorResult<any, T>;
       try {
+        if (signal?.aborted) {
+          // Runs the generator's `finally` blocks instead of resuming it.
+          generator.return(undefined as T);
+          throw toAbortError(signal);
+        }
         result = (generator as any)[verb](arg);
       } catch (err) {
         return Promise.reject(err);
@@ -322,7 +430,22 @@ export function installCadesPlugin(
       );
     };
 
-    return step('next');
+    return withAbortSignal(signal, () => step('next'));
+  };
+
+  const async_spawn = async function <T>(
+    generatorFunc: (args: any[]) => Generator<any, T, any>,
+    ...args: any[]
+  ): Promise<T> {
+    return spawn(undefined, generatorFunc, args);
+  };
+
+  const async_spawn_with_signal = async function <T>(
+    signal: AbortSignal | undefined,
+    generatorFunc: (args: any[]) => Generator<any, T, any>,
+    ...args: any[]
+  ): Promise<T> {
+    return spawn(signal, generatorFunc, args);
   };
 
   const getLastError = (exception: unknown): string => {
@@ -337,59 +460,17 @@ export function installCadesPlugin(
     return normalizeErrorForUser(exception);
   };
 
-  const get_extension_version = (callback: (version: string) => void) => {
-    const origin = (() => {
-      try {
-        return win.location.origin;
-      } catch {
-        return null;
-      }
-    })();
-
-    win.postMessage('cadesplugin_extension_version_request', '*');
-    const handler = (event: MessageEvent) => {
-      if (event.source !== win) return;
-      if (origin && event.origin !== origin) return;
-
-      const version = parsePostMessageStringResponse(
-        event.data,
-        'cadesplugin_extension_version_response:',
-      );
-      if (!version) return;
-
-      win.removeEventListener('message', handler as any, false);
-      callback(version);
-    };
-
-    win.addEventListener('message', handler as any, false);
+  // Upstream callbacks are only called with an answer. Unanswered queries stop listening after the load timeout
+  // (or on dispose) instead of piling up listeners.
+  const queryExtension = (query: CadesExtensionQuery, callback: (value: string) => void) => {
+    queryCryptoProExtension(win, query, { timeoutMs: loadTimeoutMs, signal: lifetime.signal }).then(callback, (e) =>
+      cpcsp_console_log(LOG_LEVEL_DEBUG, `Extension ${query} request failed: ${String(e?.message ?? e)}`),
+    );
   };
 
-  const get_extension_id = (callback: (id: string) => void) => {
-    const origin = (() => {
-      try {
-        return win.location.origin;
-      } catch {
-        return null;
-      }
-    })();
+  const get_extension_version = (callback: (version: string) => void) => queryExtension('version', callback);
 
-    win.postMessage('cadesplugin_extension_id_request', '*');
-    const handler = (event: MessageEvent) => {
-      if (event.source !== win) return;
-      if (origin && event.origin !== origin) return;
-
-      const id = parsePostMessageStringResponse(
-        event.data,
-        'cadesplugin_extension_id_response:',
-      );
-      if (!id) return;
-
-      win.removeEventListener('message', handler as any, false);
-      callback(id);
-    };
-
-    win.addEventListener('message', handler as any, false);
-  };
+  const get_extension_id = (callback: (id: string) => void) => queryExtension('id', callback);
 
   const set_log_level = (level: LogLevel) => {
     if (level !== LOG_LEVEL_DEBUG && level !== LOG_LEVEL_INFO && level !== LOG_LEVEL_ERROR) {
@@ -442,8 +523,16 @@ export function installCadesPlugin(
     get_extension_id,
 
     async_spawn,
+    async_spawn_with_signal,
     CreateObjectAsync,
     getLastError,
+    initTrace,
+    dispose: () => dispose(),
+    get state() {
+      return state;
+    },
+    lifecycle,
+    onStateChange,
 
     set: set_pluginObject,
     ReleasePluginObjects,
@@ -462,13 +551,45 @@ export function installCadesPlugin(
   const handshakeTimeoutMs = handshakeTimeoutMsOpt ?? Math.min(5_000, loadTimeoutMs);
 
   const timeoutId = win.setTimeout(() => {
-    rejectOnce(
-      cadesError('PLUGIN_LOAD_TIMEOUT', 'CryptoPro plugin load timeout (extension missing or blocked)', {
-        timeoutMs: loadTimeoutMs,
-      }),
-    );
+    const error = cadesError('PLUGIN_LOAD_TIMEOUT', 'CryptoPro plugin load timeout (extension missing or blocked)', {
+      timeoutMs: loadTimeoutMs,
+    });
+    rejectOnce(error);
+    // Stop the steps still running so they cannot move `state` out of `failed`.
+    lifetime.abort(error);
   }, loadTimeoutMs);
 
+  let tornDown = false;
+  const teardown = (reason: CadesPluginError) => {
+    if (tornDown) return;
+    tornDown = true;
+    // A pending initialization settles with `reason`; nobody is required to await it.
+    initPromise.catch(() => {});
+    rejectOnce(reason);
+    lifetime.abort(reason);
+    win.clearTimeout(timeoutId);
+
+    for (const script of injectedScripts.splice(0)) removeScript(script);
+    try {
+      ((win as any).cpcsp_chrome_nmcades as ChromeNmcadesApi | undefined)?.ReleasePluginObjects?.();
+    } catch {
+      // ignore
+    }
+    pluginObject = null;
+
+    try {
+      if ((win as any).cadesplugin === cadesplugin) delete (win as any).cadesplugin;
+    } catch {
+      // ignore
+    }
+
+    emit({ type: 'disposed' }, 'idle');
+  };
+
+  const dispose = () => teardown(cadesError('DISPOSED', 'CryptoPro plugin was disposed'));
+
+  const onSignalAbort = () => teardown(toAbortError(opts.signal!));
+
   const settleOk = () => {
     win.clearTimeout(timeoutId);
     resolveOnce();
@@ -501,19 +622,29 @@ export function installCadesPlugin(
 
       let loadedUrl: string | null = null;
       let lastLoadError: unknown = null;
-      let lastCspViolation: CspViolationInfo | null = null;
+      let lastCspViolation: CadesCspViolation | null = null;
 
       const csp = createCspViolationRecorder(doc);
       try {
         for (const url of urls) {
+          const attemptStartedAt = Date.now();
           try {
             cpcsp_console_log(LOG_LEVEL_DEBUG, `Loading CryptoPro extension API script: ${url}`);
-            await loadScript(doc, url);
+            emit({ type: 'script-loading', url }, 'loading-script');
+            await loadScript(doc, url, lifetime.signal, injectedScripts);
             loadedUrl = url;
+            initTrace.loadedUrl = url;
+            initTrace.scripts.push({ url, status: 'loaded', durationMs: Date.now() - attemptStartedAt, cspViolation: null });
+            emit({ type: 'script-loaded', url, durationMs: Date.now() - attemptStartedAt });
             break;
           } catch (e) {
+            if (lifetime.signal.aborted) throw e;
             lastLoadError = e;
-            lastCspViolation = csp.findByBlockedUri(url) ?? lastCspViolation;
+            const violation = csp.findByBlockedUri(url);
+            lastCspViolation = violation ?? lastCspViolation;
+            initTrace.scripts.push({ url, status: 'failed', durationMs: Date.now() - attemptStartedAt, cspViolation: violation });
+            if (violation) emit({ type: 'csp-violation', url, violation });
+            emit({ type: 'script-failed', url, durationMs: Date.now() - attemptStartedAt });
           }
         }
       } finally {
@@ -550,8 +681,10 @@ export function installCadesPlugin(
           { loadedUrl },
         );
       }
+      emit({ type: 'extension-api-found', url: loadedUrl });
 
       // Ask the extension content-script to announce itself.
+      emit({ type: 'handshake-started' }, 'handshaking');
       win.postMessage('cadesplugin_echo_request', '*');
 
       const origin = (() => {
@@ -562,6 +695,7 @@ export function installCadesPlugin(
         }
       })();
 
+      const handshakeStartedAt = Date.now();
       try {
         await waitForMessage(
           win,
@@ -571,8 +705,12 @@ export function installCadesPlugin(
             return isCadesPluginLoadedMessage(event.data);
           },
           handshakeTimeoutMs,
+          lifetime.signal,
         );
+        initTrace.handshakeMs = Date.now() - handshakeStartedAt;
+        emit({ type: 'handshake-completed', durationMs: initTrace.handshakeMs });
       } catch (e) {
+        if (lifetime.signal.aborted) throw e;
         throw cadesError(
           'HANDSHAKE_TIMEOUT',
           'Timed out waiting for CryptoPro extension handshake (cadesplugin_loaded).',
@@ -581,13 +719,23 @@ export function installCadesPlugin(
         );
       }
 
+      const nativeHostStartedAt = Date.now();
+      emit({ type: 'native-host-started' }, 'native-host');
       await new Promise<void>((resolve, reject) => {
+        const onAbort = () => reject(lifetime.signal.reason);
+        lifetime.signal.addEventListener('abort', onAbort);
         api.check_chrome_plugin(
-          () => resolve(),
-          (e) =>
-            reject(e),
+          () => {
+            lifetime.signal.removeEventListener('abort', onAbort);
+            resolve();
+          },
+          (e) => {
+            lifetime.signal.removeEventListener('abort', onAbort);
+            reject(e);
+          },
         );
       }).catch((e) => {
+        if (lifetime.signal.aborted) throw e;
         throw cadesError(
           'NATIVE_HOST_HANDSHAKE_FAILED',
           [
@@ -598,6 +746,8 @@ export function installCadesPlugin(
           e,
         );
       });
+      initTrace.nativeHostMs = Date.now() - nativeHostStartedAt;
+      emit({ type: 'native-host-connected', durationMs: initTrace.nativeHostMs });
 
       // `check_chrome_plugin` should have called `window.cadesplugin.set(...)` by now,
       // which populates `pluginObject` used by `CreateObjectAsync`.
@@ -614,7 +764,35 @@ export function installCadesPlugin(
   };
 
   // Kick off initialization asynchronously; consumers can `await window.cadesplugin`.
+  if (opts.signal?.aborted) onSignalAbort();
+  else opts.signal?.addEventListener('abort', onSignalAbort);
+
   void init();
 
   return cadesplugin;
 }
+
+/**
+ * Disposes `plugin` (defaults to `window.cadesplugin`). Globals installed by the upstream script cannot be torn
+ * down completely: their plugin objects are released and the global is deleted so the next `installCadesPlugin`
+ * starts from scratch.
+ */
+export function disposeCadesPlugin(win: Window, plugin?: CadesPluginGlobal): void {
+  const target = plugin ?? ((win as any).cadesplugin as CadesPluginGlobal | undefined);
+  if (!target) return;
+  if (typeof target.dispose === 'function') {
+    target.dispose();
+    return;
+  }
+
+  try {
+    target.ReleasePluginObjects?.();
+  } catch {
+    // ignore
+  }
+  try {
+    if ((win as any).cadesplugin === target) delete (win as any).cadesplugin;
+  } catch {
+    // ignore
+  }
+}
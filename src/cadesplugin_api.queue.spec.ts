@@ -0,0 +1,138 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { createOperationQueue } from './cadesplugin_api.queue';
+import { createCadesPluginClient } from './index';
+import { installFakeCryptoProExtension, type FakeCryptoProExtension } from './cadesplugin_api.testing';
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('operation queue', () => {
+  it('runs operations one after another by default and reports the depth', async () => {
+    const queue = createOperationQueue();
+    const log: string[] = [];
+    const first = deferred();
+
+    const a = queue.run(async () => {
+      log.push('a:start');
+      await first.promise;
+      log.push('a:end');
+    });
+    const b = queue.run(async () => void log.push('b'));
+    expect(queue).toMatchObject({ depth: 2, running: 1, pending: 1 });
+
+    await tick();
+    expect(log).toEqual(['a:start']);
+    first.resolve();
+    await Promise.all([a, b]);
+    expect(log).toEqual(['a:start', 'a:end', 'b']);
+    expect(queue.depth).toBe(0);
+  });
+
+  it('orders waiting operations by priority, then by call order', async () => {
+    const queue = createOperationQueue();
+    const gate = deferred();
+    const log: string[] = [];
+
+    const blocker = queue.run(() => gate.promise);
+    const runs = [
+      queue.run(async () => void log.push('low')),
+      queue.run(async () => void log.push('high-1'), { priority: 10 }),
+      queue.run(async () => void log.push('normal')),
+      queue.run(async () => void log.push('high-2'), { priority: 10 }),
+    ];
+    gate.resolve();
+    await Promise.all([blocker, ...runs]);
+    expect(log).toEqual(['high-1', 'high-2', 'low', 'normal']);
+  });
+
+  it('limits concurrency', async () => {
+    const queue = createOperationQueue({ concurrency: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const runs = gates.map((gate) => queue.run(() => gate.promise));
+    expect(queue).toMatchObject({ running: 2, pending: 1 });
+
+    gates[0]!.resolve();
+    await tick();
+    expect(queue).toMatchObject({ running: 2, pending: 0 });
+    gates[1]!.resolve();
+    gates[2]!.resolve();
+    await Promise.all(runs);
+  });
+
+  it('times out hung operations and frees the slot', async () => {
+    const queue = createOperationQueue({ timeoutMs: 20 });
+    let hungSignal: AbortSignal | null = null;
+
+    const hung = queue.run((signal) => {
+      hungSignal = signal;
+      return new Promise(() => {});
+    });
+    const next = queue.run(async () => 'next', { timeoutMs: 1000 });
+
+    await expect(hung).rejects.toMatchObject({ code: 'OPERATION_TIMEOUT', details: { timeoutMs: 20 } });
+    expect(hungSignal!.aborted).toBe(true);
+    await expect(next).resolves.toBe('next');
+  });
+
+  it('removes aborted operations from the queue', async () => {
+    const queue = createOperationQueue();
+    const gate = deferred();
+    const controller = new AbortController();
+    let started = false;
+
+    const blocker = queue.run(() => gate.promise);
+    const aborted = queue.run(async () => void (started = true), { signal: controller.signal });
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(queue.depth).toBe(1);
+    gate.resolve();
+    await blocker;
+    expect(started).toBe(false);
+  });
+
+  it('validates options', async () => {
+    expect(() => createOperationQueue({ concurrency: 0 })).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+    await expect(createOperationQueue().run(async () => 1, { priority: Number.NaN })).rejects.toMatchObject({
+      code: 'INVALID_OPTIONS',
+    });
+  });
+});
+
+describe('client queue', () => {
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+  });
+
+  it('serializes client operations and async_spawn jobs', async () => {
+    kit = installFakeCryptoProExtension(window, document);
+    const client = createCadesPluginClient(window, document, { logger: () => {}, queue: true });
+    await client.ready;
+
+    const gate = deferred();
+    const log: string[] = [];
+    const job = client.async_spawn(function* () {
+      log.push('job:start');
+      yield gate.promise;
+      log.push('job:end');
+    });
+    const listing = client.listCertificates({ priority: 1 }).then(() => void log.push('list'));
+    expect(client.queueDepth).toBe(2);
+
+    await tick();
+    expect(log).toEqual(['job:start']);
+    gate.resolve();
+    await Promise.all([job, listing]);
+    expect(log).toEqual(['job:start', 'job:end', 'list']);
+    expect(client.queueDepth).toBe(0);
+  });
+});
@@ -0,0 +1,176 @@
+import { toAbortError, type CadesAbortOptions } from './cadesplugin_api.abort';
+import { CadesPluginError } from './cadesplugin_api.types';
+
+export type CadesOperationQueueOptions = {
+  /**
+   * How many operations may talk to the native host at the same time (defaults to 1: strictly one after another).
+   */
+  concurrency?: number;
+
+  /**
+   * Default per-operation timeout in ms, counted from the moment the operation starts (defaults to 120000).
+   */
+  timeoutMs?: number;
+};
+
+/**
+ * Options accepted by every client operation. `priority` and `timeoutMs` only apply when the client queue is on.
+ */
+export type CadesOperationOptions = CadesAbortOptions & {
+  /**
+   * Higher runs first (defaults to 0). Operations with the same priority run in call order.
+   */
+  priority?: number;
+
+  /**
+   * Overrides the queue's `timeoutMs` for this operation.
+   */
+  timeoutMs?: number;
+};
+
+export type CadesOperationQueue = {
+  /**
+   * Runs `operation` when a slot is free. The signal passed to it fires on timeout or when `options.signal` is
+   * aborted; the caller is rejected right away (`OPERATION_TIMEOUT` / `ABORTED`) and the slot is freed, so a hung
+   * native call cannot block the queue forever.
+   */
+  run<T>(operation: (signal: AbortSignal) => Promise<T>, options?: CadesOperationOptions): Promise<T>;
+  /** Waiting plus running operations. */
+  readonly depth: number;
+  readonly pending: number;
+  readonly running: number;
+};
+
+type QueueEntry = {
+  priority: number;
+  start: () => void;
+};
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+function validatePositive(name: string, value: unknown, integer: boolean): void {
+  const n = value as number;
+  if (typeof n !== 'number' || !Number.isFinite(n) || n <= 0 || (integer && !Number.isInteger(n))) {
+    throw new CadesPluginError(
+      'INVALID_OPTIONS',
+      `${name} must be a ${integer ? 'positive integer' : 'finite positive number'}`,
+      { [name]: value },
+    );
+  }
+}
+
+/**
+ * Creates a priority queue for plugin operations. The native host handles calls one at a time and shows modal
+ * PIN/consent dialogs, so parallel calls interleave dialogs; the queue serializes them.
+ */
+export function createOperationQueue(options?: CadesOperationQueueOptions): CadesOperationQueue {
+  const concurrency = options?.concurrency ?? 1;
+  const defaultTimeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  validatePositive('concurrency', concurrency, true);
+  validatePositive('timeoutMs', defaultTimeoutMs, false);
+
+  const waiting: QueueEntry[] = [];
+  let running = 0;
+
+  const drain = () => {
+    while (running < concurrency && waiting.length > 0) {
+      running++;
+      waiting.shift()!.start();
+    }
+  };
+
+  const enqueue = (entry: QueueEntry) => {
+    // Entries are added in call order, so inserting before the first lower priority keeps FIFO per priority.
+    const index = waiting.findIndex((other) => other.priority < entry.priority);
+    if (index === -1) waiting.push(entry);
+    else waiting.splice(index, 0, entry);
+  };
+
+  const run = <T>(operation: (signal: AbortSignal) => Promise<T>, opts?: CadesOperationOptions): Promise<T> => {
+    const priority = opts?.priority ?? 0;
+    if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+      return Promise.reject(
+        new CadesPluginError('INVALID_OPTIONS', 'priority must be a finite number', { priority }),
+      );
+    }
+    const timeoutMs = opts?.timeoutMs ?? defaultTimeoutMs;
+    try {
+      validatePositive('timeoutMs', timeoutMs, false);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+
+    const signal = opts?.signal;
+    if (signal?.aborted) return Promise.reject(toAbortError(signal));
+
+    return new Promise<T>((resolve, reject) => {
+      const controller = new AbortController();
+      let state: 'waiting' | 'running' | 'done' = 'waiting';
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (settle: () => void) => {
+        if (state === 'done') return;
+        const wasRunning = state === 'running';
+        state = 'done';
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        settle();
+        if (wasRunning) {
+          running--;
+          drain();
+        }
+      };
+
+      const fail = (error: CadesPluginError) => {
+        if (state === 'waiting') waiting.splice(waiting.indexOf(entry), 1);
+        finish(() => reject(error));
+        controller.abort(error);
+      };
+
+      const onAbort = () => fail(toAbortError(signal!));
+
+      const entry: QueueEntry = {
+        priority,
+        start: () => {
+          state = 'running';
+          timer = setTimeout(
+            () =>
+              fail(
+                new CadesPluginError('OPERATION_TIMEOUT', `CryptoPro operation timed out after ${timeoutMs}ms`, {
+                  timeoutMs,
+                }),
+              ),
+            timeoutMs,
+          );
+          let result: Promise<T>;
+          try {
+            result = operation(controller.signal);
+          } catch (e) {
+            result = Promise.reject(e);
+          }
+          result.then(
+            (value) => finish(() => resolve(value)),
+            (error) => finish(() => reject(error)),
+          );
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      enqueue(entry);
+      drain();
+    });
+  };
+
+  return {
+    run,
+    get depth() {
+      return waiting.length + running;
+    },
+    get pending() {
+      return waiting.length;
+    },
+    get running() {
+      return running;
+    },
+  };
+}
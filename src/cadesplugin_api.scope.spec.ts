@@ -0,0 +1,179 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createObjectTracker } from './cadesplugin_api.scope';
+import { installFakeCryptoProExtension, type FakeCryptoProExtension } from './cadesplugin_api.testing';
+import type { CadesPluginObjectFactory } from './cadesplugin_api.types';
+import { createCadesPluginClient } from './index';
+
+function fakeFactory() {
+  const plugin = {
+    CreateObjectAsync: vi.fn(async (name: string) => ({ name })),
+    getLastError: () => '',
+    ReleasePluginObjects: vi.fn(),
+  };
+  return plugin as typeof plugin & CadesPluginObjectFactory;
+}
+
+describe('object tracker', () => {
+  it('releases the objects of a scope once when it ends and keeps counters', async () => {
+    const plugin = fakeFactory();
+    const objects = createObjectTracker(() => plugin);
+
+    const result = await objects.withScope(async (scope) => {
+      await scope.CreateObjectAsync('CAdESCOM.CPSigner');
+      await scope.CreateObjectAsync('CAdESCOM.CadesSignedData');
+      expect(objects.counters).toMatchObject({
+        created: 2,
+        live: 2,
+        liveByProgId: { 'CAdESCOM.CPSigner': 1, 'CAdESCOM.CadesSignedData': 1 },
+        openScopes: 1,
+      });
+      expect(scope.created).toBe(2);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(plugin.ReleasePluginObjects).toHaveBeenCalledTimes(1);
+    expect(objects.counters).toEqual({
+      created: 2,
+      live: 0,
+      liveByProgId: {},
+      released: 2,
+      releaseCalls: 1,
+      openScopes: 0,
+      runningOperations: 0,
+    });
+  });
+
+  it('releases when the callback throws', async () => {
+    const plugin = fakeFactory();
+    const objects = createObjectTracker(() => plugin);
+
+    await expect(
+      objects.withScope(async (scope) => {
+        await scope.CreateObjectAsync('CAdESCOM.CPSigner');
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(plugin.ReleasePluginObjects).toHaveBeenCalledTimes(1);
+    expect(objects.counters.live).toBe(0);
+  });
+
+  it('defers releases until the last open scope closes', async () => {
+    const plugin = fakeFactory();
+    const objects = createObjectTracker(() => plugin);
+    const tracked = objects.track(plugin);
+
+    const outer = objects.openScope();
+    await outer.CreateObjectAsync('CAdESCOM.Store');
+    await objects.withScope(async (inner) => {
+      await inner.CreateObjectAsync('CAdESCOM.CPSigner');
+      inner.ReleasePluginObjects!();
+    });
+    // An operation outside any scope would normally release right away.
+    await tracked.CreateObjectAsync('CAdESCOM.HashedData');
+    tracked.ReleasePluginObjects!();
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+    expect(objects.counters).toMatchObject({ live: 3, openScopes: 1 });
+
+    outer.close();
+    outer.close();
+    expect(plugin.ReleasePluginObjects).toHaveBeenCalledTimes(1);
+    expect(objects.counters).toMatchObject({ live: 0, released: 3, openScopes: 0 });
+
+    tracked.ReleasePluginObjects!();
+    expect(plugin.ReleasePluginObjects).toHaveBeenCalledTimes(2);
+  });
+
+  it('releases once the last concurrent operation ends', async () => {
+    const plugin = fakeFactory();
+    const objects = createObjectTracker(() => plugin);
+    const tracked = objects.track(plugin);
+    let finishFirst!: () => void;
+
+    const first = objects.runOperation(async () => {
+      await tracked.CreateObjectAsync('CAdESCOM.CPSigner');
+      await new Promise<void>((resolve) => (finishFirst = resolve));
+    });
+    await objects.runOperation(async () => {
+      await tracked.CreateObjectAsync('CAdESCOM.HashedData');
+    });
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+    expect(objects.counters).toMatchObject({ live: 2, runningOperations: 1 });
+
+    finishFirst();
+    await first;
+    expect(plugin.ReleasePluginObjects).toHaveBeenCalledTimes(1);
+    expect(objects.counters).toMatchObject({ live: 0, runningOperations: 0 });
+  });
+
+  it('supports Symbol.asyncDispose and rejects objects from a closed scope', async () => {
+    const plugin = fakeFactory();
+    const objects = createObjectTracker(() => plugin);
+
+    const scope = objects.openScope();
+    await scope.CreateObjectAsync('CAdESCOM.About');
+    await scope[Symbol.asyncDispose]();
+
+    expect(scope.closed).toBe(true);
+    expect(plugin.ReleasePluginObjects).toHaveBeenCalledTimes(1);
+    expect(() => scope.CreateObjectAsync('CAdESCOM.About')).toThrow(
+      expect.objectContaining({ code: 'SCOPE_CLOSED', details: { progId: 'CAdESCOM.About' } }),
+    );
+  });
+});
+
+describe('client scopes', () => {
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+  });
+
+  it('releases objects of client operations when the scope ends', async () => {
+    kit = installFakeCryptoProExtension(window, document);
+    const client = createCadesPluginClient(window, document, { logger: () => {} });
+    await client.ready;
+
+    await client.listCertificates();
+    expect(kit.releaseCount).toBe(1);
+
+    await client.withScope(async () => {
+      await client.listCertificates();
+      await client.listCertificates();
+      expect(kit!.releaseCount).toBe(1);
+      expect(client.objectCounters.live).toBeGreaterThan(0);
+    });
+
+    expect(kit.releaseCount).toBe(2);
+    expect(client.objectCounters).toMatchObject({ live: 0, releaseCalls: 2, openScopes: 0 });
+    expect(client.objectCounters.created).toBe(client.objectCounters.released);
+  });
+
+  it('does not free the objects of an operation still in flight', async () => {
+    kit = installFakeCryptoProExtension(window, document);
+    const client = createCadesPluginClient(window, document, { logger: () => {} });
+    await client.ready;
+
+    const results = await Promise.all([client.listCertificates(), client.listCertificates()]);
+
+    expect(results[0]).toEqual(results[1]);
+    expect(kit.releaseCount).toBe(1);
+    expect(client.objectCounters).toMatchObject({ live: 0, releaseCalls: 1, runningOperations: 0 });
+  });
+
+  it('counts objects created through client.CreateObjectAsync as live until released', async () => {
+    kit = installFakeCryptoProExtension(window, document);
+    const client = createCadesPluginClient(window, document, { logger: () => {} });
+    await client.ready;
+
+    const scope = client.createScope();
+    await scope.CreateObjectAsync('CAdESCOM.About');
+    await client.CreateObjectAsync('CAdESCOM.About');
+    expect(client.objectCounters.liveByProgId).toEqual({ 'CAdESCOM.About': 2 });
+
+    scope.close();
+    expect(client.objectCounters.live).toBe(0);
+  });
+});
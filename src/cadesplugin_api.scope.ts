@@ -0,0 +1,198 @@
+import { releasePluginObjects } from './cadesplugin_api.certificates';
+import {
+  CadesPluginError,
+  type CadesPluginGlobal,
+  type CadesPluginObjectFactory,
+} from './cadesplugin_api.types';
+
+/**
+ * Objects created with `CreateObjectAsync` through the client. Objects returned by methods and properties
+ * (`store.Certificates`, `signer.Certificate`, ...) live in the native host too but cannot be counted.
+ */
+export type CadesObjectCounters = {
+  /** Objects created so far. */
+  created: number;
+  /** Created and not released yet. */
+  live: number;
+  /** Live objects per ProgID (`CAdESCOM.CPSigner`, ...). */
+  liveByProgId: Record<string, number>;
+  released: number;
+  /** `ReleasePluginObjects` calls that reached the plugin. */
+  releaseCalls: number;
+  openScopes: number;
+  /** Client operations in flight. */
+  runningOperations: number;
+};
+
+// `[Symbol.dispose]`/`[Symbol.asyncDispose]` (for `using`/`await using`) are typed only for consumers whose `lib`
+// declares those symbols; the members exist at runtime either way.
+type CadesDisposeMembers = SymbolConstructor extends {
+  readonly dispose: infer D extends symbol;
+  readonly asyncDispose: infer A extends symbol;
+}
+  ? { [K in D]: () => void } & { [K in A]: () => Promise<void> }
+  : unknown;
+
+/**
+ * A plugin object factory whose objects are released when the scope closes. `ReleasePluginObjects` frees every
+ * object of the page, so while any scope is open or any client operation is in flight releases are deferred until
+ * the last of them ends; nested and concurrent scopes and operations therefore never free each other's objects.
+ * Objects created through the client while a scope is open are released with it too.
+ */
+export type CadesPluginScope = CadesPluginObjectFactory &
+  CadesDisposeMembers & {
+    /** Objects created through this scope. */
+    readonly created: number;
+    readonly closed: boolean;
+    /** Idempotent. Creating objects through a closed scope throws `SCOPE_CLOSED`. */
+    close(): void;
+  };
+
+export type CadesObjectTracker = {
+  /** Counts created objects and defers `ReleasePluginObjects` while a scope or operation is running. */
+  track(plugin: CadesPluginObjectFactory): CadesPluginObjectFactory;
+  /**
+   * Runs a client operation. Its objects are released when it ends, or later when other scopes or operations are
+   * still running.
+   */
+  runOperation<T>(operation: () => Promise<T>): Promise<T>;
+  openScope(): CadesPluginScope;
+  withScope<T>(fn: (scope: CadesPluginScope) => Promise<T>): Promise<T>;
+  /** Records that the objects were released behind the tracker's back (e.g. by `dispose()`). */
+  forgetLive(): void;
+  /** A snapshot. */
+  readonly counters: CadesObjectCounters;
+};
+
+// `Symbol.asyncDispose`/`Symbol.dispose` are missing in older runtimes; TypeScript's `using` helpers fall back to
+// the same registered symbols.
+const wellKnownSymbols = Symbol as { asyncDispose?: symbol; dispose?: symbol };
+const asyncDisposeSymbol = wellKnownSymbols.asyncDispose ?? Symbol.for('Symbol.asyncDispose');
+const disposeSymbol = wellKnownSymbols.dispose ?? Symbol.for('Symbol.dispose');
+
+/**
+ * Tracks plugin objects created through `getPlugin()` (read at call time, so it follows `reinitialize()`).
+ */
+export function createObjectTracker(getPlugin: () => CadesPluginObjectFactory): CadesObjectTracker {
+  let created = 0;
+  let released = 0;
+  let releaseCalls = 0;
+  let openScopes = 0;
+  let runningOperations = 0;
+  // Set by releases requested and objects created while a scope or operation is running.
+  let releaseDeferred = false;
+  const liveByProgId = new Map<string, number>();
+
+  const busy = () => openScopes > 0 || runningOperations > 0;
+
+  const liveCount = () => [...liveByProgId.values()].reduce((sum, n) => sum + n, 0);
+
+  const forgetLive = () => {
+    released += liveCount();
+    liveByProgId.clear();
+  };
+
+  const release = (plugin: CadesPluginObjectFactory) => {
+    releaseDeferred = false;
+    if (!plugin.ReleasePluginObjects) return;
+    releaseCalls++;
+    forgetLive();
+    releasePluginObjects(plugin);
+  };
+
+  const releaseIfIdle = () => {
+    if (!busy() && releaseDeferred) release(getPlugin());
+  };
+
+  const create = (plugin: CadesPluginObjectFactory, name: string, onCreated?: () => void): Promise<any> =>
+    Promise.resolve(plugin.CreateObjectAsync(name)).then((object) => {
+      created++;
+      liveByProgId.set(name, (liveByProgId.get(name) ?? 0) + 1);
+      if (busy()) releaseDeferred = true;
+      onCreated?.();
+      return object;
+    });
+
+  const track = (plugin: CadesPluginObjectFactory): CadesPluginObjectFactory => ({
+    CreateObjectAsync: ((name: string) => create(plugin, name)) as CadesPluginGlobal['CreateObjectAsync'],
+    getLastError: (exception) => plugin.getLastError(exception),
+    ReleasePluginObjects: () => {
+      if (busy()) releaseDeferred = true;
+      else release(plugin);
+    },
+  });
+
+  const openScope = (): CadesPluginScope => {
+    let closed = false;
+    let scopeCreated = 0;
+    openScopes++;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      openScopes--;
+      releaseIfIdle();
+    };
+
+    return {
+      CreateObjectAsync: ((name: string) => {
+        if (closed) {
+          throw new CadesPluginError('SCOPE_CLOSED', 'CryptoPro plugin scope is already closed', { progId: name });
+        }
+        return create(getPlugin(), name, () => void scopeCreated++);
+      }) as CadesPluginGlobal['CreateObjectAsync'],
+      getLastError: (exception) => getPlugin().getLastError(exception),
+      // Code given the scope as its plugin may still release explicitly; the scope decides when it really happens.
+      ReleasePluginObjects: () => {
+        releaseDeferred = true;
+      },
+      get created() {
+        return scopeCreated;
+      },
+      get closed() {
+        return closed;
+      },
+      close,
+      [disposeSymbol]: close,
+      [asyncDisposeSymbol]: async () => close(),
+    } as CadesPluginScope;
+  };
+
+  const runOperation = async <T>(operation: () => Promise<T>): Promise<T> => {
+    runningOperations++;
+    try {
+      return await operation();
+    } finally {
+      runningOperations--;
+      releaseIfIdle();
+    }
+  };
+
+  const withScope = async <T>(fn: (scope: CadesPluginScope) => Promise<T>): Promise<T> => {
+    const scope = openScope();
+    try {
+      return await fn(scope);
+    } finally {
+      scope.close();
+    }
+  };
+
+  return {
+    track,
+    runOperation,
+    openScope,
+    withScope,
+    forgetLive,
+    get counters() {
+      return {
+        created,
+        live: liveCount(),
+        liveByProgId: Object.fromEntries(liveByProgId),
+        released,
+        releaseCalls,
+        openScopes,
+        runningOperations,
+      };
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { CRYPTOPRO_EXTENSION_IDS } from './cadesplugin_api.utils';
+import {
+  applyCryptoProCsp,
+  cryptoProCspKoaMiddleware,
+  cryptoProCspMiddleware,
+  isCryptoProRoute,
+} from './cadesplugin_api.server';
+
+const CSP = "default-src 'self'; script-src 'self'";
+const V3_ORIGIN = `chrome-extension://${CRYPTOPRO_EXTENSION_IDS.manifestV3}`;
+
+describe('server CSP middleware', () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = null;
+  });
+
+  async function serve(handler: (req: IncomingMessage, res: ServerResponse) => void) {
+    server = createServer(handler);
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return async (path: string) => {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`);
+      await response.text();
+      return {
+        csp: response.headers.get('content-security-policy'),
+        reportOnly: response.headers.get('content-security-policy-report-only'),
+      };
+    };
+  }
+
+  it('patches the CSP of configured routes only (plain node http)', async () => {
+    const get = await serve((req, res) => {
+      applyCryptoProCsp(req, res, { routes: ['/admin'] });
+      // Set after the call, as helmet-like code later in the handler would.
+      res.setHeader('Content-Security-Policy', CSP);
+      res.end('ok');
+    });
+
+    for (const path of ['/admin', '/admin/sign?x=1', '/en/admin/sign']) {
+      const { csp } = await get(path);
+      expect(csp).toMatch(/^default-src 'self'; script-src 'self' chrome-extension:\/\//);
+      expect(csp).toContain(V3_ORIGIN);
+      expect(csp).toContain(`chrome-extension://${CRYPTOPRO_EXTENSION_IDS.manifestV2}`);
+    }
+    for (const path of ['/', '/administrator', '/english/admin', '/en/../public']) {
+      expect((await get(path)).csp).toBe(CSP);
+    }
+  });
+
+  it('patches headers passed to writeHead and leaves responses without CSP alone', async () => {
+    const get = await serve((req, res) => {
+      applyCryptoProCsp(req, res, { routes: ['/admin'], extensionIds: [CRYPTOPRO_EXTENSION_IDS.manifestV3] });
+      if (req.url === '/admin/no-csp') return res.end();
+      res.writeHead(200, 'OK', { 'Content-Security-Policy-Report-Only': CSP }).end();
+    });
+
+    expect((await get('/admin')).reportOnly).toBe(`default-src 'self'; script-src 'self' ${V3_ORIGIN}`);
+    expect(await get('/admin/no-csp')).toEqual({ csp: null, reportOnly: null });
+  });
+
+  it('uses originalUrl in Connect/Express routers', async () => {
+    const middleware = cryptoProCspMiddleware({ routes: ['/orders/*/sign'], languagePrefix: false });
+    const get = await serve((req, res) => {
+      // Emulate a router mounted at `/orders`.
+      const mounted = Object.assign(req, { originalUrl: req.url, url: req.url!.replace(/^\/orders/, '') });
+      middleware(mounted, res, (err) => {
+        expect(err).toBeUndefined();
+        res.setHeader('Content-Security-Policy', CSP);
+        res.end();
+      });
+    });
+
+    expect((await get('/orders/42/sign')).csp).toContain(V3_ORIGIN);
+    expect((await get('/ru/orders/42/sign')).csp).toBe(CSP);
+    expect((await get('/orders/42')).csp).toBe(CSP);
+  });
+
+  it('works as Koa middleware', async () => {
+    const middleware = cryptoProCspKoaMiddleware({ routes: [/^\/cabinet\//] });
+    const get = await serve((req, res) => {
+      void middleware({ originalUrl: req.url, url: req.url, res }, async () => {
+        res.setHeader('Content-Security-Policy', [CSP, "script-src-elem 'self'"]);
+      }).then(() => res.end());
+    });
+
+    const { csp } = await get('/cabinet/sign');
+    expect(csp!.split(', ')).toHaveLength(2);
+    expect(csp!.split(', ').every((policy) => policy.includes(V3_ORIGIN))).toBe(true);
+    expect((await get('/cabinet')).csp).not.toContain(V3_ORIGIN);
+  });
+
+  it('matches string, RegExp and predicate routes', () => {
+    const options = { routes: ['/admin', /^\/sign$/, (p: string) => p.endsWith('.sign')] };
+    expect(isCryptoProRoute('/de/admin/x', options)).toBe(true);
+    expect(isCryptoProRoute('/sign', options)).toBe(true);
+    expect(isCryptoProRoute('/docs/a.sign', options)).toBe(true);
+    expect(isCryptoProRoute('/Admin', options)).toBe(false);
+    expect(isCryptoProRoute('/en/admin', { ...options, languagePrefix: /^(ru|kk)$/ })).toBe(false);
+    expect(isCryptoProRoute('/kk/admin', { ...options, languagePrefix: /^(ru|kk)$/ })).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+import { patchCryptoProCsp, type CadesCspCheckOptions } from './cadesplugin_api.csp';
+import { matchesPathnamePattern, type PathnamePatternOptions } from './cadesplugin_api.utils';
+
+/**
+ * `'/admin'` matches `/admin`, `/admin/...` and (with `languagePrefix`) `/en/admin/...`; `*` matches one segment.
+ * RegExps and predicates receive the pathname without query string.
+ */
+export type CryptoProRoutePattern = string | RegExp | ((pathname: string) => boolean);
+
+export type CryptoProCspMiddlewareOptions = CadesCspCheckOptions &
+  PathnamePatternOptions & {
+    /**
+     * Routes that use the plugin. Other responses are never touched.
+     */
+    routes: readonly CryptoProRoutePattern[];
+
+    /**
+     * Response headers to patch (case-insensitive). Defaults to `Content-Security-Policy` and
+     * `Content-Security-Policy-Report-Only`.
+     */
+    headerNames?: readonly string[];
+  };
+
+type HeaderValue = number | string | readonly string[];
+
+/** The parts of Node's `http.ServerResponse` the middleware uses. */
+export type NodeLikeResponse = {
+  getHeader(name: string): HeaderValue | undefined;
+  setHeader(name: string, value: HeaderValue): unknown;
+  writeHead(statusCode: number, ...rest: any[]): unknown;
+};
+
+export type NodeLikeRequest = { url?: string };
+
+export type KoaLikeContext = { originalUrl?: string; url?: string; res: NodeLikeResponse };
+
+const DEFAULT_HEADER_NAMES = ['content-security-policy', 'content-security-policy-report-only'] as const;
+
+const PATCHED = Symbol.for('cryptopro-cadesplugin-api.csp-patched');
+
+function pathnameOf(url: string | undefined): string {
+  try {
+    // Resolves dot segments the same way routers do (`/en/../admin` is `/admin`).
+    return new URL(url || '/', 'http://localhost').pathname;
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * True when the pathname belongs to one of the configured CryptoPro routes.
+ */
+export function isCryptoProRoute(pathname: string, options: CryptoProCspMiddlewareOptions): boolean {
+  return options.routes.some((route) => {
+    if (typeof route === 'string') return matchesPathnamePattern(pathname, route, options);
+    if (typeof route === 'function') return route(pathname);
+    route.lastIndex = 0;
+    return route.test(pathname);
+  });
+}
+
+function patchValue(value: HeaderValue, options: CadesCspCheckOptions): HeaderValue {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return patchCryptoProCsp(value, options);
+  // Several header values are separate policies; keep them separate.
+  return value.map((v) => patchCryptoProCsp(v, options));
+}
+
+function patchHeaderArgument(headers: unknown, names: ReadonlySet<string>, options: CadesCspCheckOptions): unknown {
+  if (Array.isArray(headers)) {
+    // Raw `[name, value, name, value]` form.
+    if (headers.length && !Array.isArray(headers[0])) {
+      return headers.map((item, index) =>
+        index % 2 === 1 && names.has(String(headers[index - 1]).toLowerCase()) ? patchValue(item, options) : item,
+      );
+    }
+    return headers.map((pair) =>
+      Array.isArray(pair) && names.has(String(pair[0]).toLowerCase()) ? [pair[0], patchValue(pair[1], options)] : pair,
+    );
+  }
+  if (headers && typeof headers === 'object') {
+    const copy: Record<string, unknown> = { ...(headers as Record<string, unknown>) };
+    for (const key of Object.keys(copy)) {
+      if (names.has(key.toLowerCase()) && copy[key] !== undefined) {
+        copy[key] = patchValue(copy[key] as HeaderValue, options);
+      }
+    }
+    return copy;
+  }
+  return headers;
+}
+
+/**
+ * Patches the CSP of one response when the request targets a CryptoPro route. Headers are rewritten right before
+ * they are sent (`writeHead`, including the implicit one of `write`/`end`), so it does not matter whether the CSP
+ * is set before or after this call. Responses without a CSP header are left alone.
+ */
+export function applyCryptoProCsp(
+  req: NodeLikeRequest,
+  res: NodeLikeResponse,
+  options: CryptoProCspMiddlewareOptions,
+): void {
+  applyToResponse(pathnameOf(req.url), res, options);
+}
+
+function applyToResponse(pathname: string, res: NodeLikeResponse, options: CryptoProCspMiddlewareOptions): void {
+  const target = res as NodeLikeResponse & { [PATCHED]?: true };
+  if (target[PATCHED] || !isCryptoProRoute(pathname, options)) return;
+  target[PATCHED] = true;
+
+  const names = new Set((options.headerNames ?? DEFAULT_HEADER_NAMES).map((name) => name.toLowerCase()));
+  const writeHead = res.writeHead;
+
+  res.writeHead = function patchedWriteHead(this: NodeLikeResponse, statusCode: number, ...rest: any[]) {
+    for (const name of names) {
+      const value = res.getHeader(name);
+      if (value !== undefined) res.setHeader(name, patchValue(value, options));
+    }
+    const headersIndex = typeof rest[0] === 'string' ? 1 : 0;
+    if (rest[headersIndex] !== undefined) rest[headersIndex] = patchHeaderArgument(rest[headersIndex], names, options);
+    return writeHead.call(this, statusCode, ...rest);
+  };
+}
+
+/**
+ * Connect/Express middleware: `app.use(cryptoProCspMiddleware({ routes: ['/admin'] }))`.
+ */
+export function cryptoProCspMiddleware(
+  options: CryptoProCspMiddlewareOptions,
+): (req: NodeLikeRequest & { originalUrl?: string }, res: NodeLikeResponse, next: (err?: unknown) => void) => void {
+  return (req, res, next) => {
+    try {
+      // `req.url` is relative to the mount point inside routers; `originalUrl` is the full path.
+      applyToResponse(pathnameOf(req.originalUrl ?? req.url), res, options);
+    } catch (e) {
+      next(e);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Koa middleware: `app.use(cryptoProCspKoaMiddleware({ routes: ['/admin'] }))`.
+ */
+export function cryptoProCspKoaMiddleware(
+  options: CryptoProCspMiddlewareOptions,
+): (ctx: KoaLikeContext, next: () => Promise<unknown>) => Promise<void> {
+  return async (ctx, next) => {
+    applyToResponse(pathnameOf(ctx.originalUrl ?? ctx.url), ctx.res, options);
+    await next();
+  };
+}
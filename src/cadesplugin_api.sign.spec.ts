@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { signCades, toCadesContent } from './cadesplugin_api.sign';
+import { createFakeCadesPlugin } from './cadesplugin_api.testing';
+
+const certificate = { thumbprint: 'AABB', subjectName: 'CN=Signer', hasPrivateKey: true };
+
+const decodeFakeSignature = (signature: string) => JSON.parse(Buffer.from(signature, 'base64').toString('utf8'));
+
+// `CadesSignedData` whose `SignCades` is scripted, for answers the fake plug-in never gives.
+function scriptedSignedData(signCades: () => Promise<string>) {
+  return {
+    propset_ContentEncoding: async () => undefined,
+    propset_Content: async () => undefined,
+    SignCades: vi.fn(signCades),
+  };
+}
+
+describe('CryptoPro signCades', () => {
+  it('toCadesContent: encodes strings and binary data', async () => {
+    expect(await toCadesContent('привет')).toEqual({
+      content: Buffer.from('привет', 'utf8').toString('base64'),
+      contentEncoding: 1,
+    });
+    expect(await toCadesContent('aGVs\nbG8=', 'base64')).toEqual({ content: 'aGVsbG8=', contentEncoding: 1 });
+    expect(await toCadesContent('hello', 'utf-16le')).toEqual({ content: 'hello', contentEncoding: 0 });
+    expect(await toCadesContent(new Uint8Array([1, 2, 3]))).toEqual({ content: 'AQID', contentEncoding: 1 });
+    expect(await toCadesContent(new Blob(['hello']))).toEqual({ content: 'aGVsbG8=', contentEncoding: 1 });
+  });
+
+  it('signs detached CAdES-BES with a signing time', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+    const plugin = Object.assign(fake, { ReleasePluginObjects: vi.fn() });
+
+    const signature = await signCades(plugin, 'hello', { thumbprint: 'aa:bb', detached: true });
+
+    expect(decodeFakeSignature(signature)).toMatchObject({
+      content: Buffer.from('hello', 'utf8').toString('base64'),
+      detached: true,
+      signers: [{ thumbprint: 'AABB', cadesType: 1, signingTime: expect.any(String), timestamp: null }],
+    });
+    expect(fake.created).toEqual([
+      'CAdESCOM.Store',
+      'CAdESCOM.CPSigner',
+      'CAdESCOM.CPAttribute',
+      'CAdESCOM.CadesSignedData',
+    ]);
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+  });
+
+  it('returns a single-line base64 signature', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+    const signedData = scriptedSignedData(async () => 'MIIB\r\nAAAA\r\n');
+    fake.override('CAdESCOM.CadesSignedData', () => signedData);
+
+    expect(await signCades(fake, 'hello', { thumbprint: 'AABB', detached: true })).toBe('MIIBAAAA');
+    expect(signedData.SignCades).toHaveBeenCalledWith(expect.anything(), 1, true, 0);
+  });
+
+  it('requires tsaUrl for CAdES-T and time-stamps with it', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+
+    await expect(signCades(fake, 'x', { thumbprint: 'AA', cadesType: 'CAdES-T' })).rejects.toMatchObject({
+      code: 'INVALID_OPTIONS',
+    });
+
+    const signature = await signCades(fake, 'x', {
+      thumbprint: 'AABB',
+      cadesType: 'CAdES-XLT1',
+      tsaUrl: 'http://tsa.local/tsp.srf',
+    });
+    expect(fake.tsa.requests).toEqual(['http://tsa.local/tsp.srf']);
+    expect(decodeFakeSignature(signature)).toMatchObject({
+      detached: false,
+      signers: [{ cadesType: 0x5d, timestamp: expect.any(String) }],
+    });
+  });
+
+  it('maps failures to CERTIFICATE_NOT_FOUND, recognized reasons and SIGN_FAILED', async () => {
+    await expect(signCades(createFakeCadesPlugin(), 'x', { thumbprint: 'AA' })).rejects.toMatchObject({
+      code: 'CERTIFICATE_NOT_FOUND',
+    });
+
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+    const plugin = Object.assign(fake, { ReleasePluginObjects: vi.fn() });
+    fake.override('CAdESCOM.CadesSignedData', () =>
+      scriptedSignedData(async () => {
+        throw new Error('The operation was canceled by the user. (0x8010006E)');
+      }),
+    );
+    await expect(signCades(plugin, 'x', { thumbprint: 'AABB' })).rejects.toMatchObject({
+      name: 'CadesOperationError',
+      code: 'USER_CANCELLED',
+      hresult: '0x8010006E',
+      details: {
+        thumbprint: 'AABB',
+        cadesType: 'CAdES-BES',
+        detached: false,
+        hresult: '0x8010006E',
+        originalCode: 'SIGN_FAILED',
+        originalMessage: 'The operation was canceled by the user. (0x8010006E)',
+      },
+    });
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+
+    fake.override('CAdESCOM.CadesSignedData', () =>
+      scriptedSignedData(async () => {
+        throw new Error('Internal error. (0x80090020)');
+      }),
+    );
+    await expect(signCades(fake, 'x', { thumbprint: 'AABB' })).rejects.toMatchObject({
+      code: 'SIGN_FAILED',
+      details: { hresult: '0x80090020', originalCode: 'SIGN_FAILED' },
+    });
+  });
+});
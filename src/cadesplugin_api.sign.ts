@@ -0,0 +1,252 @@
+import {
+  CADESCOM_AUTHENTICATED_ATTRIBUTE,
+  CADESCOM_CADES_TYPE,
+  CADESCOM_CONTENT_ENCODING,
+  CADESCOM_ENCODING_TYPE,
+  type CadesCertificate,
+  type CadesCPSigner,
+} from './cadesplugin_api.cadescom';
+import {
+  findCertificateByThumbprint,
+  readKeyAlgorithmOid,
+  type FindCertificateOptions,
+} from './cadesplugin_api.certificates';
+import type { CadesHashAlgorithmName } from './cadesplugin_api.hash';
+import { createOperationError } from './cadesplugin_api.hresult';
+import type { CadesOperationOptions } from './cadesplugin_api.queue';
+import { CadesPluginError, type CadesPluginObjectFactory } from './cadesplugin_api.types';
+import { bytesToBase64 } from './cadesplugin_api.utils';
+
+export type CadesSignatureType = 'CAdES-BES' | 'CAdES-T' | 'CAdES-XLT1';
+
+/**
+ * Data accepted by signing operations. Binary inputs are always signed as-is.
+ */
+export type CadesDataInput = string | Uint8Array | ArrayBuffer | Blob;
+
+/**
+ * How a string input is turned into the signed bytes:
+ * - `utf-8` (default): the string is UTF-8 encoded
+ * - `base64`: the string already is base64 of the bytes to sign
+ * - `utf-16le`: upstream `CADESCOM_STRING_TO_UCS2LE` behavior
+ */
+export type CadesStringEncoding = 'utf-8' | 'base64' | 'utf-16le';
+
+export type SignCadesOptions = FindCertificateOptions & CadesOperationOptions & {
+  /**
+   * SHA-1 thumbprint of the signing certificate.
+   */
+  thumbprint: string;
+
+  /**
+   * Produce a detached signature (defaults to false: the content is attached).
+   */
+  detached?: boolean;
+
+  /**
+   * Signature format (defaults to `CAdES-BES`). `CAdES-T` and `CAdES-XLT1` require `tsaUrl`.
+   */
+  cadesType?: CadesSignatureType;
+
+  /**
+   * Time-stamp authority URL.
+   */
+  tsaUrl?: string;
+
+  /**
+   * Hash algorithm the TSA accepts. Only checked: CAdESCOM always asks the TSA for the signature's digest algorithm, so
+   * a signing key with another one rejects with `NOT_SUPPORTED`. The client falls back to its
+   * `tsa.requireHashAlgorithm` option.
+   */
+  requireTsaHashAlgorithm?: CadesHashAlgorithmName;
+
+  /**
+   * Add the signing-time authenticated attribute (defaults to true, i.e. the current time).
+   * Pass a `Date` to use a specific time or `false` to omit the attribute.
+   */
+  signingTime?: boolean | Date;
+
+  /**
+   * Encoding of string data (ignored for binary inputs).
+   */
+  encoding?: CadesStringEncoding;
+};
+
+export type CadesContent = {
+  content: string;
+  contentEncoding: number;
+};
+
+// Digest algorithm CAdESCOM pairs with each GOST key, for the signature and its time-stamp request alike.
+const HASH_ALGORITHM_BY_KEY_OID: Record<string, CadesHashAlgorithmName> = {
+  // GOST R 34.10-2012 256 bit
+  '1.2.643.7.1.1.1.1': 'GOST_R3411_2012_256',
+  // GOST R 34.10-2012 512 bit
+  '1.2.643.7.1.1.1.2': 'GOST_R3411_2012_512',
+  // GOST R 34.10-2001
+  '1.2.643.2.2.19': 'GOST_R3411_94',
+};
+
+const HASH_ALGORITHM_NAMES: ReadonlySet<string> = new Set(Object.values(HASH_ALGORITHM_BY_KEY_OID));
+
+const CADES_TYPE_BY_NAME: Record<CadesSignatureType, number> = {
+  'CAdES-BES': CADESCOM_CADES_TYPE.BES,
+  'CAdES-T': CADESCOM_CADES_TYPE.T,
+  'CAdES-XLT1': CADESCOM_CADES_TYPE.X_LONG_TYPE_1,
+};
+
+export function toCadesType(name: CadesSignatureType): number {
+  const value = CADES_TYPE_BY_NAME[name];
+  if (value === undefined) {
+    throw new CadesPluginError('INVALID_OPTIONS', `Unsupported cadesType: ${String(name)}`, { cadesType: name });
+  }
+  return value;
+}
+
+/**
+ * Converts signing input into a `Content`/`ContentEncoding` pair for `CadesSignedData`.
+ */
+export async function toCadesContent(
+  data: CadesDataInput,
+  encoding: CadesStringEncoding = 'utf-8',
+): Promise<CadesContent> {
+  if (typeof data === 'string') {
+    if (encoding === 'utf-16le') {
+      return { content: data, contentEncoding: CADESCOM_CONTENT_ENCODING.STRING_TO_UCS2LE };
+    }
+    const content = encoding === 'base64' ? data.replace(/\s+/g, '') : bytesToBase64(new TextEncoder().encode(data));
+    return { content, contentEncoding: CADESCOM_CONTENT_ENCODING.BASE64_TO_BINARY };
+  }
+
+  let bytes: Uint8Array;
+  if (data instanceof Uint8Array) bytes = data;
+  else if (data instanceof ArrayBuffer) bytes = new Uint8Array(data);
+  else if (typeof Blob !== 'undefined' && data instanceof Blob) bytes = new Uint8Array(await data.arrayBuffer());
+  else {
+    throw new CadesPluginError('INVALID_OPTIONS', 'data must be a string, Uint8Array, ArrayBuffer or Blob');
+  }
+  return { content: bytesToBase64(bytes), contentEncoding: CADESCOM_CONTENT_ENCODING.BASE64_TO_BINARY };
+}
+
+/**
+ * Signatures come back as base64 split into 64-char lines; callers get a single-line string.
+ */
+export function stripBase64LineBreaks(value: string): string {
+  return String(value ?? '').replace(/[\r\n]+/g, '');
+}
+
+/**
+ * Validates a `requireTsaHashAlgorithm` option.
+ */
+export function validateTsaHashAlgorithm(value: unknown): CadesHashAlgorithmName | undefined {
+  if (value !== undefined && !HASH_ALGORITHM_NAMES.has(value as string)) {
+    throw new CadesPluginError('INVALID_OPTIONS', `Unsupported TSA hash algorithm: ${String(value)}`, {
+      requireTsaHashAlgorithm: value,
+    });
+  }
+  return value as CadesHashAlgorithmName | undefined;
+}
+
+/**
+ * Rejects with `NOT_SUPPORTED` when a time-stamp for a signature made with `certificate` would be requested with a
+ * hash algorithm other than `required`.
+ */
+export async function checkTsaHashAlgorithm(
+  certificate: CadesCertificate,
+  required: CadesHashAlgorithmName | undefined,
+): Promise<void> {
+  if (required === undefined) return;
+  const keyAlgorithmOid = await readKeyAlgorithmOid(certificate);
+  const hashAlgorithm = HASH_ALGORITHM_BY_KEY_OID[String(keyAlgorithmOid ?? '').trim()] ?? null;
+  if (hashAlgorithm !== required) {
+    throw new CadesPluginError(
+      'NOT_SUPPORTED',
+      `The TSA hash algorithm ${required} does not match the signing key (${hashAlgorithm ?? keyAlgorithmOid})`,
+      { requireTsaHashAlgorithm: required, hashAlgorithm, keyAlgorithmOid },
+    );
+  }
+}
+
+/**
+ * Creates a `CPSigner` for the given certificate, applying TSA and signing-time settings.
+ */
+export async function createSigner(
+  plugin: CadesPluginObjectFactory,
+  options: Omit<SignCadesOptions, 'detached' | 'encoding'>,
+): Promise<CadesCPSigner> {
+  const certificate = await findCertificateByThumbprint(plugin, options.thumbprint, options);
+  if (options.tsaUrl && (options.cadesType ?? 'CAdES-BES') !== 'CAdES-BES') {
+    await checkTsaHashAlgorithm(certificate, options.requireTsaHashAlgorithm);
+  }
+  const signer = await plugin.CreateObjectAsync('CAdESCOM.CPSigner');
+  await signer.propset_Certificate(certificate);
+
+  if (options.tsaUrl) {
+    await signer.propset_TSAAddress(options.tsaUrl);
+  }
+
+  const signingTime = options.signingTime ?? true;
+  if (signingTime !== false) {
+    const attribute = await plugin.CreateObjectAsync('CAdESCOM.CPAttribute');
+    await attribute.propset_Name(CADESCOM_AUTHENTICATED_ATTRIBUTE.SIGNING_TIME);
+    await attribute.propset_Value(signingTime === true ? new Date() : signingTime);
+    const attributes = await signer.AuthenticatedAttributes2;
+    await attributes.Add(attribute);
+  }
+
+  return signer;
+}
+
+/**
+ * Validates signer options and returns the numeric CAdES type.
+ */
+export function validateSignOptions(
+  options: Pick<SignCadesOptions, 'thumbprint' | 'cadesType' | 'tsaUrl' | 'requireTsaHashAlgorithm'>,
+): number {
+  if (!options || typeof options.thumbprint !== 'string' || !options.thumbprint.trim()) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'thumbprint is required');
+  }
+  validateTsaHashAlgorithm(options.requireTsaHashAlgorithm);
+  const cadesType = toCadesType(options.cadesType ?? 'CAdES-BES');
+  if (cadesType !== CADESCOM_CADES_TYPE.BES && !options.tsaUrl) {
+    throw new CadesPluginError('INVALID_OPTIONS', `tsaUrl is required for ${options.cadesType}`, {
+      cadesType: options.cadesType,
+    });
+  }
+  return cadesType;
+}
+
+/**
+ * Signs data with `CAdESCOM.CadesSignedData.SignCades` and returns the base64 CMS signature.
+ */
+export async function signCades(
+  plugin: CadesPluginObjectFactory,
+  data: CadesDataInput,
+  options: SignCadesOptions,
+): Promise<string> {
+  const cadesType = validateSignOptions(options);
+  const { content, contentEncoding } = await toCadesContent(data, options.encoding);
+
+  try {
+    const signer = await createSigner(plugin, options);
+    const signedData = await plugin.CreateObjectAsync('CAdESCOM.CadesSignedData');
+    // ContentEncoding must be set before Content.
+    await signedData.propset_ContentEncoding(contentEncoding);
+    await signedData.propset_Content(content);
+
+    const signature = await signedData.SignCades(
+      signer,
+      cadesType,
+      Boolean(options.detached),
+      CADESCOM_ENCODING_TYPE.BASE64,
+    );
+    return stripBase64LineBreaks(signature);
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(plugin, e, 'SIGN_FAILED', 'CryptoPro signing failed', {
+      thumbprint: options.thumbprint,
+      cadesType: options.cadesType ?? 'CAdES-BES',
+      detached: Boolean(options.detached),
+    });
+  }
+}
@@ -0,0 +1,108 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { CRYPTOPRO_EXTENSION_IDS, initCadesPluginClient } from './index';
+import {
+  createFakeCadesPlugin,
+  createFakeTsa,
+  installFakeCryptoProExtension,
+  type FakeCryptoProExtension,
+  type FakeExtensionFailure,
+} from './cadesplugin_api.testing';
+import * as testingEntry from './testing';
+
+const THUMBPRINT = '0123456789ABCDEF0123456789ABCDEF01234567';
+
+describe('CryptoPro test-kit', () => {
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+  });
+
+  it('initializes the client through the emulated extension', async () => {
+    kit = installFakeCryptoProExtension(window, document, {
+      plugin: { certificates: [{ thumbprint: THUMBPRINT, subjectName: 'CN=Иванов' }] },
+    });
+
+    const client = await initCadesPluginClient(window, document, { logger: () => {} });
+
+    expect(kit.requestedScripts).toEqual([
+      `chrome-extension://${CRYPTOPRO_EXTENSION_IDS.manifestV2}/nmcades_plugin_api.js`,
+      `chrome-extension://${CRYPTOPRO_EXTENSION_IDS.manifestV3}/nmcades_plugin_api.js`,
+    ]);
+    expect(kit.messages).toContain('cadesplugin_echo_request');
+
+    const certificates = await client.listCertificates();
+    expect(certificates.map((c) => c.thumbprint)).toEqual([THUMBPRINT]);
+    expect(kit.releaseCount).toBe(1);
+
+    const version = await new Promise((resolve) => client.raw.get_extension_version(resolve));
+    expect(version).toBe('1.3.2');
+  });
+
+  it('round-trips signCades/verifyCades with the fake plugin', async () => {
+    kit = installFakeCryptoProExtension(window, document, {
+      plugin: { certificates: [{ thumbprint: THUMBPRINT, subjectName: 'CN=Иванов' }] },
+    });
+    const client = await initCadesPluginClient(window, document, { logger: () => {} });
+
+    const signature = await client.signCades('hello', { thumbprint: THUMBPRINT, detached: true });
+    const report = await client.verifyCades(signature, { detachedContent: 'hello' });
+    expect(report.valid).toBe(true);
+    expect(report.signers[0]?.certificate?.thumbprint).toBe(THUMBPRINT);
+
+    expect((await client.verifyCades(signature, { detachedContent: 'tampered' })).error?.code).toBe('VERIFY_FAILED');
+  });
+
+  it('exposes the fake TSA on the public test-kit entry', () => {
+    expect(testingEntry.createFakeTsa).toBe(createFakeTsa);
+
+    const tsa = testingEntry.createFakeTsa({ urls: ['http://tsa.local/tsp.srf'] });
+    expect(tsa.stamp('http://tsa.local/tsp.srf')).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(() => tsa.stamp('http://other.local/')).toThrow('0x80072EE7');
+    expect(tsa.requests).toEqual(['http://tsa.local/tsp.srf', 'http://other.local/']);
+  });
+
+  it('scripts plugin failures', async () => {
+    const plugin = createFakeCadesPlugin();
+    plugin.failNext('CAdESCOM.Store', 'The store could not be opened (0x80092004)');
+    kit = installFakeCryptoProExtension(window, document, { plugin });
+    const client = await initCadesPluginClient(window, document, { logger: () => {} });
+
+    await expect(client.listCertificates()).rejects.toMatchObject({ code: 'CERTIFICATE_STORE_FAILED' });
+    expect(plugin.created).toEqual(['CAdESCOM.Store']);
+  });
+
+  const failures: Array<[FakeExtensionFailure, string]> = [
+    ['csp-blocked', 'CSP_BLOCKED'],
+    ['not-installed', 'EXTENSION_API_LOAD_FAILED'],
+    ['load-timeout', 'PLUGIN_LOAD_TIMEOUT'],
+    ['api-missing', 'EXTENSION_API_MISSING'],
+    ['handshake-timeout', 'HANDSHAKE_TIMEOUT'],
+    ['native-host', 'NATIVE_HOST_HANDSHAKE_FAILED'],
+    ['plugin-object-missing', 'PLUGIN_OBJECT_MISSING'],
+  ];
+
+  it.each(failures)('failure %s rejects with %s', async (failure, code) => {
+    kit = installFakeCryptoProExtension(window, document, { failure, nativeHostError: 'Native host exited.' });
+
+    await expect(
+      initCadesPluginClient(window, document, { logger: () => {}, timeoutMs: 200, handshakeTimeoutMs: 50 }),
+    ).rejects.toMatchObject({ code });
+  });
+
+  it('reports the blocked URL for CSP violations', async () => {
+    kit = installFakeCryptoProExtension(window, document, { failure: 'csp-blocked' });
+
+    await expect(initCadesPluginClient(window, document, { logger: () => {} })).rejects.toMatchObject({
+      code: 'CSP_BLOCKED',
+      details: {
+        cspViolation: {
+          blockedURI: `chrome-extension://${CRYPTOPRO_EXTENSION_IDS.manifestV3}/nmcades_plugin_api.js`,
+          effectiveDirective: 'script-src-elem',
+        },
+      },
+    });
+  });
+});
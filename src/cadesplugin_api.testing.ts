@@ -0,0 +1,746 @@
+import {
+  CADESCOM_CADES_TYPE,
+  CADESCOM_CONTENT_ENCODING,
+  CADESCOM_STORE_LOCATION,
+  CADESCOM_STORE_NAME,
+} from './cadesplugin_api.cadescom';
+import { normalizeThumbprint } from './cadesplugin_api.certificates';
+import {
+  CRYPTOPRO_EXTENSION_IDS,
+  base64ToBytes,
+  bytesToBase64,
+  pemToBase64,
+  sha1Hex,
+} from './cadesplugin_api.utils';
+import { parseCertificate } from './cadesplugin_api.x509';
+
+/**
+ * Certificate as seen by the fake plugin. Only `thumbprint` and `subjectName` are required.
+ */
+export type FakeCertificate = {
+  thumbprint: string;
+  subjectName: string;
+  issuerName?: string;
+  serialNumber?: string;
+  validFrom?: Date | string;
+  validTo?: Date | string;
+  hasPrivateKey?: boolean;
+  keyAlgorithmOid?: string;
+  extendedKeyUsageOids?: string[];
+  /** Base64 DER returned by `Certificate.Export` (rejects when omitted). */
+  content?: string;
+};
+
+export type FakeStore = {
+  location?: number;
+  name?: string;
+  certificates: FakeCertificate[];
+};
+
+export type FakeCadesPluginOptions = {
+  /** Shorthand for the `CURRENT_USER`/`My` store. */
+  certificates?: FakeCertificate[];
+  stores?: FakeStore[];
+  /** Versions reported by `CAdESCOM.About` (defaults to `2.0.15000` / `5.0.13000`). */
+  pluginVersion?: string;
+  cspVersion?: string;
+  /** Time-stamp authority for CAdES-T/XLT1 (defaults to `createFakeTsa()`, which answers every URL). */
+  tsa?: FakeTsa;
+};
+
+export type FakeTsaOptions = {
+  /** URLs that answer; other URLs fail as unresolvable. Every URL answers when omitted. */
+  urls?: readonly string[];
+};
+
+/**
+ * In-memory time-stamp authority used by the fake plugin for `SignCades`/`CoSignCades`/`EnhanceCades` with
+ * CAdES-T and CAdES-XLT1. Failures carry the WinINet HRESULTs the real plugin reports (`TSA_UNAVAILABLE`).
+ */
+export type FakeTsa = {
+  /** TSA URLs that were asked for a time-stamp, in call order. */
+  readonly requests: string[];
+  /** Takes `url` down (connection failures) or, with `false`, brings it back. */
+  setUnavailable(url: string, unavailable?: boolean): void;
+  /** Answers a time-stamp request with the stamp time (ISO 8601) or throws like the plugin does. */
+  stamp(url: string): string;
+};
+
+/**
+ * Scriptable stand-in for the object the extension passes to `cadesplugin.set(...)`.
+ */
+export type FakeCadesPlugin = {
+  CreateObjectAsync(name: string): Promise<any>;
+  /**
+   * Message of the last failure. Given the thrown error (as `cadesplugin.getLastError` is), returns its message, so
+   * failures of `override` objects are reported too.
+   */
+  getLastError(exception?: unknown): string;
+  /** Names passed to `CreateObjectAsync`, in call order. */
+  readonly created: string[];
+  readonly stores: FakeStore[];
+  readonly tsa: FakeTsa;
+  /** Replaces (or adds) the factory for a CAdESCOM object name. */
+  override(name: string, factory: () => unknown): void;
+  /** Makes the next `CreateObjectAsync(name)` call reject with `message`, also reported by `getLastError()`. */
+  failNext(name: string, message: string): void;
+};
+
+/**
+ * Failure modes of the fake extension; each one drives `installCadesPlugin` into a specific error code:
+ * - `csp-blocked` → `CSP_BLOCKED`
+ * - `not-installed` → `EXTENSION_API_LOAD_FAILED`
+ * - `load-timeout` → `PLUGIN_LOAD_TIMEOUT` (the script never settles)
+ * - `api-missing` → `EXTENSION_API_MISSING`
+ * - `handshake-timeout` → `HANDSHAKE_TIMEOUT`
+ * - `native-host` → `NATIVE_HOST_HANDSHAKE_FAILED`
+ * - `plugin-object-missing` → `PLUGIN_OBJECT_MISSING`
+ */
+export type FakeExtensionFailure =
+  | 'csp-blocked'
+  | 'not-installed'
+  | 'load-timeout'
+  | 'api-missing'
+  | 'handshake-timeout'
+  | 'native-host'
+  | 'plugin-object-missing';
+
+export type FakeCryptoProExtensionOptions = {
+  /** Installed extension id (defaults to the manifest V3 store id). */
+  extensionId?: string;
+  /** Version answered to `cadesplugin_extension_version_request` (defaults to `1.3.2`). */
+  version?: string;
+  /** Delay before script loads and extension responses (defaults to 0). */
+  latencyMs?: number;
+  failure?: FakeExtensionFailure | null;
+  /** Error passed to the `check_chrome_plugin` error callback for `native-host`. */
+  nativeHostError?: string;
+  plugin?: FakeCadesPlugin | FakeCadesPluginOptions;
+};
+
+export type FakeCryptoProExtension = {
+  readonly plugin: FakeCadesPlugin;
+  /** Every `nmcades_plugin_api.js` URL the page tried to load. */
+  readonly requestedScripts: string[];
+  /** String messages the page posted to the extension content script. */
+  readonly messages: string[];
+  /** Number of `cpcsp_chrome_nmcades.ReleasePluginObjects()` calls. */
+  readonly releaseCount: number;
+  /** Switches the failure mode for subsequent loads/handshakes (`null` restores the happy path). */
+  setFailure(failure: FakeExtensionFailure | null): void;
+  /**
+   * Restores `appendChild`, removes leftover extension scripts and listeners and deletes `cpcsp_chrome_nmcades` /
+   * `cadesplugin` from the window.
+   */
+  uninstall(): void;
+};
+
+const EXTENSION_SCRIPT_RE = /^chrome-extension:\/\/([a-p]{32})\/nmcades_plugin_api\.js$/;
+
+const FAKE_SIGNATURE_MARKER = 'fake-cades-signature';
+
+type FakeSignaturePayload = {
+  marker: typeof FAKE_SIGNATURE_MARKER;
+  signers: Array<{ thumbprint: string; signingTime: string | null; cadesType: number; timestamp: string | null }>;
+  content: string;
+  detached: boolean;
+};
+
+function encodeJson(value: unknown): string {
+  return bytesToBase64(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeJson(base64: string): unknown {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64ToBytes(base64)));
+  } catch {
+    return null;
+  }
+}
+
+function toDate(value: Date | string | undefined, fallback: string): Date {
+  return value instanceof Date ? value : new Date(value ?? fallback);
+}
+
+function collection<T>(items: T[]) {
+  return {
+    get Count() {
+      return Promise.resolve(items.length);
+    },
+    async Item(index: number): Promise<T> {
+      const item = items[index - 1];
+      if (item === undefined) throw new Error(`Index out of range: ${index}`);
+      return item;
+    },
+    async Add(item: T) {
+      items.push(item);
+    },
+    async Clear() {
+      items.length = 0;
+    },
+  };
+}
+
+function createFakeCertificateObject(plugin: { lastError: string }, initial: FakeCertificate | null) {
+  let cert = initial;
+  const read = <K extends keyof FakeCertificate>(key: K): FakeCertificate[K] => {
+    if (!cert) throw new Error('Certificate is not initialized');
+    return cert[key];
+  };
+
+  return {
+    get Thumbprint() {
+      return Promise.resolve(normalizeThumbprint(read('thumbprint')));
+    },
+    get SubjectName() {
+      return Promise.resolve(read('subjectName'));
+    },
+    get IssuerName() {
+      return Promise.resolve(read('issuerName') ?? read('subjectName'));
+    },
+    get SerialNumber() {
+      return Promise.resolve(read('serialNumber') ?? '01');
+    },
+    get ValidFromDate() {
+      return Promise.resolve(toDate(read('validFrom'), '2024-01-01T00:00:00Z'));
+    },
+    get ValidToDate() {
+      return Promise.resolve(toDate(read('validTo'), '2099-01-01T00:00:00Z'));
+    },
+    get Version() {
+      return Promise.resolve(3);
+    },
+    async HasPrivateKey() {
+      return read('hasPrivateKey') ?? true;
+    },
+    async IsValid() {
+      const now = Date.now();
+      const valid =
+        toDate(read('validFrom'), '2024-01-01T00:00:00Z').getTime() <= now &&
+        now <= toDate(read('validTo'), '2099-01-01T00:00:00Z').getTime();
+      return { Result: Promise.resolve(valid) };
+    },
+    async GetInfo() {
+      return read('subjectName');
+    },
+    async Export() {
+      const content = read('content');
+      if (!content) {
+        plugin.lastError = 'Certificate content is not available in the fake plugin.';
+        throw new Error(plugin.lastError);
+      }
+      return content;
+    },
+    async Import(encoded: string) {
+      const parsed = parseCertificate(encoded);
+      cert = {
+        thumbprint: parsed.thumbprint,
+        subjectName: parsed.subject.attributes.map((a) => `${a.shortName ?? a.oid}=${a.value}`).join(', '),
+        issuerName: parsed.issuer.attributes.map((a) => `${a.shortName ?? a.oid}=${a.value}`).join(', '),
+        serialNumber: parsed.serialNumber,
+        validFrom: parsed.validFrom,
+        validTo: parsed.validTo,
+        hasPrivateKey: false,
+        keyAlgorithmOid: parsed.publicKey.algorithmOid,
+        extendedKeyUsageOids: parsed.extendedKeyUsageOids,
+        content: pemToBase64(encoded),
+      };
+    },
+    async PublicKey() {
+      const oid = read('keyAlgorithmOid') ?? '1.2.643.7.1.1.1.1';
+      return { Algorithm: Promise.resolve({ Value: Promise.resolve(oid), FriendlyName: Promise.resolve(oid) }) };
+    },
+    async ExtendedKeyUsage() {
+      const oids = read('extendedKeyUsageOids') ?? [];
+      return {
+        IsPresent: Promise.resolve(oids.length > 0),
+        EKUs: Promise.resolve(collection(oids.map((oid) => ({ OID: Promise.resolve(oid) })))),
+      };
+    },
+  };
+}
+
+export function createFakeTsa(options?: FakeTsaOptions): FakeTsa {
+  const requests: string[] = [];
+  const down = new Set<string>();
+  return {
+    requests,
+    setUnavailable(url, unavailable = true) {
+      if (unavailable) down.add(url);
+      else down.delete(url);
+    },
+    stamp(url) {
+      requests.push(url);
+      if (!url) throw new Error('The time-stamp server address is not set.');
+      if (down.has(url)) throw new Error('A connection with the server could not be established (0x80072EFD)');
+      if (options?.urls && !options.urls.includes(url)) {
+        throw new Error('The server name or address could not be resolved (0x80072EE7)');
+      }
+      return new Date().toISOString();
+    },
+  };
+}
+
+/**
+ * Creates an in-memory fake of the CryptoPro plugin object. It implements stores, certificates, signers,
+ * `CadesSignedData` (sign/co-sign/enhance/verify round-trips with an opaque fake signature format, time-stamps from
+ * a `FakeTsa`) and `HashedData`
+ * (SHA-1 stands in for GOST). Anything else can be added with `override`.
+ */
+export function createFakeCadesPlugin(options?: FakeCadesPluginOptions): FakeCadesPlugin {
+  const opts = options ?? {};
+  const stores: FakeStore[] = [
+    ...(opts.stores ?? []),
+    ...(opts.certificates ? [{ certificates: opts.certificates }] : []),
+  ];
+  const state = { lastError: '' };
+  const created: string[] = [];
+  const overrides = new Map<string, () => unknown>();
+  const failures = new Map<string, string>();
+  const tsa = opts.tsa ?? createFakeTsa();
+
+  const stamp = (url: string): string => {
+    try {
+      return tsa.stamp(url);
+    } catch (e) {
+      state.lastError = (e as Error).message;
+      throw e;
+    }
+  };
+
+  const findStore = (location?: number, name?: string): FakeStore | undefined =>
+    stores.find(
+      (store) =>
+        (store.location ?? CADESCOM_STORE_LOCATION.CURRENT_USER) === (location ?? CADESCOM_STORE_LOCATION.CURRENT_USER) &&
+        (store.name ?? CADESCOM_STORE_NAME.MY).toLowerCase() === (name ?? CADESCOM_STORE_NAME.MY).toLowerCase(),
+    );
+
+  const findCertificate = (thumbprint: string): FakeCertificate | undefined =>
+    stores
+      .flatMap((store) => store.certificates)
+      .find((cert) => normalizeThumbprint(cert.thumbprint) === normalizeThumbprint(thumbprint));
+
+  const certificateObject = (cert: FakeCertificate | null) => createFakeCertificateObject(state, cert);
+
+  const certificatesCollection = (certs: FakeCertificate[]) => ({
+    ...collection(certs.map(certificateObject)),
+    async Find(_findType: number, criteria?: unknown) {
+      // Only SHA1_HASH lookups are emulated.
+      const wanted = normalizeThumbprint(String(criteria ?? ''));
+      return certificatesCollection(certs.filter((cert) => normalizeThumbprint(cert.thumbprint) === wanted));
+    },
+  });
+
+  const createStore = () => {
+    let opened: FakeStore | null = null;
+    return {
+      async Open(location?: number, name?: string) {
+        opened = findStore(location, name) ?? { location, name, certificates: [] };
+      },
+      async Close() {
+        opened = null;
+      },
+      get Certificates() {
+        if (!opened) return Promise.reject(new Error('Store is not opened'));
+        return Promise.resolve(certificatesCollection(opened.certificates));
+      },
+    };
+  };
+
+  const createSigner = () => {
+    let certificate: ReturnType<typeof certificateObject> | null = null;
+    let tsaAddress = '';
+    const attributes: Array<{ name: number; value: unknown }> = [];
+    return {
+      get Certificate() {
+        return Promise.resolve(certificate);
+      },
+      get TSAAddress() {
+        return Promise.resolve(tsaAddress);
+      },
+      get AuthenticatedAttributes2() {
+        return Promise.resolve(collection(attributes));
+      },
+      async propset_Certificate(value: ReturnType<typeof certificateObject>) {
+        certificate = value;
+      },
+      async propset_TSAAddress(value: string) {
+        tsaAddress = value;
+      },
+      async propset_Options() {},
+      async propset_KeyPin() {},
+      async propset_CheckCertificate() {},
+    };
+  };
+
+  const createAttribute = () => {
+    let name = 0;
+    let value: unknown = null;
+    return {
+      get name() {
+        return name;
+      },
+      get value() {
+        return value;
+      },
+      async propset_Name(v: number) {
+        name = v;
+      },
+      async propset_Value(v: unknown) {
+        value = v;
+      },
+    };
+  };
+
+  const createSignedData = () => {
+    let content = '';
+    let signers: FakeSignaturePayload['signers'] = [];
+    let detachedMessage = false;
+
+    const sign = async (signer: ReturnType<typeof createSigner> | undefined, cadesType: number) => {
+      const certificate = signer ? await signer.Certificate : null;
+      if (!certificate) {
+        state.lastError = 'The signer certificate is not set.';
+        throw new Error(state.lastError);
+      }
+      if (!(await certificate.HasPrivateKey())) {
+        state.lastError = 'Keyset does not exist (0x80090016)';
+        throw new Error(state.lastError);
+      }
+      const attributes = await signer!.AuthenticatedAttributes2;
+      const count = await attributes.Count;
+      let signingTime: string | null = null;
+      for (let i = 1; i <= count; i++) {
+        // Only the signing-time attribute is ever added by this library.
+        signingTime = new Date((await attributes.Item(i)).value as string).toISOString();
+      }
+      const timestamp = cadesType === CADESCOM_CADES_TYPE.BES ? null : stamp(await signer!.TSAAddress);
+      return { thumbprint: await certificate.Thumbprint, signingTime, cadesType, timestamp };
+    };
+
+    const readSigners = () =>
+      collection(
+        signers.map((signer) => {
+          const cert = findCertificate(signer.thumbprint);
+          return {
+            Certificate: Promise.resolve(cert ? certificateObject(cert) : null),
+            // Getters: a rejected promise nobody reads would be reported as unhandled.
+            get SigningTime() {
+              return signer.signingTime
+                ? Promise.resolve(new Date(signer.signingTime))
+                : Promise.reject(new Error('No signing time'));
+            },
+            get SignatureTimeStampTime() {
+              return signer.timestamp
+                ? Promise.resolve(new Date(signer.timestamp))
+                : Promise.reject(new Error('No timestamp'));
+            },
+            SignatureStatus: Promise.resolve({ IsValid: Promise.resolve(true) }),
+            // X Long Type 1 embeds revocation data.
+            CRLs: Promise.resolve({
+              Count: Promise.resolve(signer.cadesType === CADESCOM_CADES_TYPE.X_LONG_TYPE_1 ? 1 : 0),
+            }),
+            OCSPResponses: Promise.resolve({ Count: Promise.resolve(0) }),
+          };
+        }),
+      );
+
+    return {
+      get Content() {
+        return Promise.resolve(content);
+      },
+      get Signers() {
+        return Promise.resolve(readSigners());
+      },
+      async propset_ContentEncoding() {},
+      async propset_Content(value: string) {
+        content = value;
+      },
+      async SignCades(signer?: ReturnType<typeof createSigner>, cadesType = CADESCOM_CADES_TYPE.BES, detached = false) {
+        const info = await sign(signer, cadesType);
+        const payload: FakeSignaturePayload = { marker: FAKE_SIGNATURE_MARKER, signers: [info], content, detached };
+        return encodeJson(payload);
+      },
+      async CoSignCades(signer?: ReturnType<typeof createSigner>, cadesType = CADESCOM_CADES_TYPE.BES) {
+        if (signers.length === 0) {
+          state.lastError = 'The message to co-sign is not loaded.';
+          throw new Error(state.lastError);
+        }
+        const info = await sign(signer, cadesType);
+        const payload: FakeSignaturePayload = {
+          marker: FAKE_SIGNATURE_MARKER,
+          signers: [...signers, info],
+          content,
+          detached: detachedMessage,
+        };
+        return encodeJson(payload);
+      },
+      async EnhanceCades(cadesType = CADESCOM_CADES_TYPE.T, tsaAddress = '') {
+        if (signers.length === 0) {
+          state.lastError = 'The message to enhance is not loaded.';
+          throw new Error(state.lastError);
+        }
+        const time = stamp(tsaAddress);
+        signers = signers.map((signer) => ({ ...signer, cadesType, timestamp: signer.timestamp ?? time }));
+        const payload: FakeSignaturePayload = {
+          marker: FAKE_SIGNATURE_MARKER,
+          signers,
+          content,
+          detached: detachedMessage,
+        };
+        return encodeJson(payload);
+      },
+      async SignHash(hashedData: { Value: Promise<string> }, signer?: ReturnType<typeof createSigner>, cadesType = CADESCOM_CADES_TYPE.BES) {
+        const info = await sign(signer, cadesType);
+        const payload: FakeSignaturePayload = {
+          marker: FAKE_SIGNATURE_MARKER,
+          signers: [info],
+          content: await hashedData.Value,
+          detached: true,
+        };
+        return encodeJson(payload);
+      },
+      async VerifyCades(message: string, _cadesType?: number, detached = false) {
+        const payload = decodeJson(message) as FakeSignaturePayload | null;
+        const contentMatches = payload && (detached ? payload.content === content : !payload.detached);
+        if (!payload || payload.marker !== FAKE_SIGNATURE_MARKER || !contentMatches) {
+          state.lastError = 'Invalid signature.';
+          throw new Error(state.lastError);
+        }
+        content = payload.content;
+        signers = payload.signers;
+        detachedMessage = payload.detached;
+      },
+    };
+  };
+
+  const createHashedData = () => {
+    const chunks: Uint8Array[] = [];
+    let value: string | null = null;
+    return {
+      get Value() {
+        if (value !== null) return Promise.resolve(value);
+        const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+        const bytes = new Uint8Array(total);
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
+        }
+        return Promise.resolve(sha1Hex(bytes));
+      },
+      async propset_Algorithm() {},
+      async propset_DataEncoding(encoding: number) {
+        if (encoding !== CADESCOM_CONTENT_ENCODING.BASE64_TO_BINARY) {
+          throw new Error('The fake HashedData only supports BASE64_TO_BINARY.');
+        }
+      },
+      async Hash(data: string) {
+        chunks.push(base64ToBytes(data));
+      },
+      async SetHashValue(hashValue: string) {
+        value = hashValue;
+      },
+    };
+  };
+
+  const factories: Record<string, () => unknown> = {
+    'CAdESCOM.About': () => ({
+      Version: Promise.resolve(opts.pluginVersion ?? '2.0.15000'),
+      PluginVersion: Promise.resolve({ toString: async () => opts.pluginVersion ?? '2.0.15000' }),
+      CSPVersion: async () => ({ toString: async () => opts.cspVersion ?? '5.0.13000' }),
+      CSPName: async () => 'Crypto-Pro GOST R 34.10-2012 Cryptographic Service Provider',
+    }),
+    'CAdESCOM.Store': createStore,
+    'CAdESCOM.Certificate': () => certificateObject(null),
+    'CAdESCOM.CPSigner': createSigner,
+    'CAdESCOM.CPAttribute': createAttribute,
+    'CAdESCOM.CadesSignedData': createSignedData,
+    'CAdESCOM.HashedData': createHashedData,
+  };
+
+  return {
+    async CreateObjectAsync(name: string) {
+      created.push(name);
+      const failure = failures.get(name);
+      if (failure !== undefined) {
+        failures.delete(name);
+        state.lastError = failure;
+        throw new Error(failure);
+      }
+      const factory = overrides.get(name) ?? factories[name];
+      if (!factory) {
+        state.lastError = `Unsupported object in the fake plugin: ${name}`;
+        throw new Error(state.lastError);
+      }
+      return factory();
+    },
+    getLastError: (exception) => (exception instanceof Error ? exception.message : state.lastError),
+    created,
+    stores,
+    tsa,
+    override(name, factory) {
+      overrides.set(name, factory);
+    },
+    failNext(name, message) {
+      failures.set(name, message);
+    },
+  };
+}
+
+function isFakeCadesPlugin(value: unknown): value is FakeCadesPlugin {
+  return Boolean(value && typeof (value as FakeCadesPlugin).CreateObjectAsync === 'function');
+}
+
+/**
+ * Emulates the CryptoPro browser extension inside jsdom/happy-dom:
+ * - attaches `<script src="chrome-extension://<id>/nmcades_plugin_api.js">` without fetching it and, for the
+ *   installed id, defines `window.cpcsp_chrome_nmcades` and fires `load` asynchronously (other ids fire `error`);
+ * - answers `cadesplugin_echo_request` with `cadesplugin_loaded` and the extension version/id requests;
+ * - `check_chrome_plugin` passes the fake plugin to `window.cadesplugin.set(...)`.
+ *
+ * Install it before `installCadesPlugin` / `initCadesPluginClient` and call `uninstall()` after each test.
+ */
+export function installFakeCryptoProExtension(
+  win: Window,
+  doc: Document,
+  options?: FakeCryptoProExtensionOptions,
+): FakeCryptoProExtension {
+  const opts = options ?? {};
+  const extensionId = opts.extensionId ?? CRYPTOPRO_EXTENSION_IDS.manifestV3;
+  const version = opts.version ?? '1.3.2';
+  const latencyMs = opts.latencyMs ?? 0;
+  const plugin = isFakeCadesPlugin(opts.plugin) ? opts.plugin : createFakeCadesPlugin(opts.plugin);
+
+  let failure: FakeExtensionFailure | null = opts.failure ?? null;
+  let releaseCount = 0;
+  const requestedScripts: string[] = [];
+  const messages: string[] = [];
+  const timers = new Set<number>();
+  let replying = false;
+
+  const later = (fn: () => void) => {
+    const id = win.setTimeout(() => {
+      timers.delete(id);
+      fn();
+    }, latencyMs);
+    timers.add(id);
+  };
+
+  const reply = (data: string) => {
+    later(() => {
+      const origin = (() => {
+        try {
+          return win.location.origin;
+        } catch {
+          return '';
+        }
+      })();
+      // Dispatched directly: not every DOM emulation sets `event.source` for `window.postMessage`.
+      replying = true;
+      try {
+        win.dispatchEvent(new MessageEvent('message', { data, origin, source: win as any }));
+      } finally {
+        replying = false;
+      }
+    });
+  };
+
+  const api = {
+    check_chrome_plugin(onOk: () => void, onError: (e?: unknown) => void) {
+      later(() => {
+        if (failure === 'native-host') {
+          onError(new Error(opts.nativeHostError ?? 'Failed to connect to the native messaging host.'));
+          return;
+        }
+        if (failure !== 'plugin-object-missing') (win as any).cadesplugin?.set?.(plugin);
+        onOk();
+      });
+    },
+    ReleasePluginObjects() {
+      releaseCount++;
+    },
+  };
+
+  const handleScript = (script: HTMLScriptElement, id: string) => {
+    requestedScripts.push(script.src);
+    if (failure === 'load-timeout') return;
+
+    later(() => {
+      if (failure === 'csp-blocked') {
+        const violation = new Event('securitypolicyviolation');
+        Object.assign(violation, {
+          blockedURI: script.src,
+          effectiveDirective: 'script-src-elem',
+          violatedDirective: 'script-src-elem',
+        });
+        doc.dispatchEvent(violation);
+        script.dispatchEvent(new Event('error'));
+        return;
+      }
+      if (failure === 'not-installed' || id !== extensionId) {
+        script.dispatchEvent(new Event('error'));
+        return;
+      }
+      if (failure !== 'api-missing') (win as any).cpcsp_chrome_nmcades = api;
+      script.dispatchEvent(new Event('load'));
+    });
+  };
+
+  const head = doc.head;
+  const originalAppendChild = head.appendChild;
+  const attachedScripts: HTMLScriptElement[] = [];
+  head.appendChild = function appendChild<T extends Node>(node: T): T {
+    const src = (node as unknown as HTMLScriptElement).src;
+    const match = (node as unknown as Element).tagName === 'SCRIPT' && typeof src === 'string' ? src.match(EXTENSION_SCRIPT_RE) : null;
+    if (!match) return originalAppendChild.call(this, node) as T;
+    const script = node as unknown as HTMLScriptElement;
+    // Attached like in a browser, but with a non-script type while it connects: DOM emulations would otherwise try
+    // (and fail) to fetch the chrome-extension:// URL. Changing the type back does not start a load.
+    const type = script.getAttribute('type');
+    script.setAttribute('type', 'application/x-fake-cryptopro-extension');
+    try {
+      originalAppendChild.call(this, script);
+    } finally {
+      if (type === null) script.removeAttribute('type');
+      else script.setAttribute('type', type);
+    }
+    attachedScripts.push(script);
+    handleScript(script, match[1]!);
+    return node;
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    if (replying || typeof event.data !== 'string') return;
+    messages.push(event.data);
+    if (event.data === 'cadesplugin_echo_request') {
+      if (failure !== 'handshake-timeout' && failure !== 'not-installed') reply('cadesplugin_loaded');
+    } else if (event.data === 'cadesplugin_extension_version_request') {
+      reply(`cadesplugin_extension_version_response:${version}`);
+    } else if (event.data === 'cadesplugin_extension_id_request') {
+      reply(`cadesplugin_extension_id_response:${extensionId}`);
+    }
+  };
+  win.addEventListener('message', onMessage);
+
+  return {
+    plugin,
+    requestedScripts,
+    messages,
+    get releaseCount() {
+      return releaseCount;
+    },
+    setFailure(next) {
+      failure = next;
+    },
+    uninstall() {
+      head.appendChild = originalAppendChild;
+      for (const script of attachedScripts.splice(0)) script.remove();
+      win.removeEventListener('message', onMessage);
+      for (const id of timers) win.clearTimeout(id);
+      timers.clear();
+      delete (win as any).cpcsp_chrome_nmcades;
+      delete (win as any).cadesplugin;
+    },
+  };
+}
@@ -12,5 +12,5 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
   window.cadesplugin = installCadesPlugin(window, document);
 }
 
-export { installCadesPlugin } from './cadesplugin_api.install';
+export { disposeCadesPlugin, installCadesPlugin } from './cadesplugin_api.install';
 export type { CadesPluginGlobal, LogLevel } from './cadesplugin_api.types';
@@ -0,0 +1,179 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { CadesBatchSignProgress, CadesBatchSignResult } from './cadesplugin_api.batch';
+import { signCades } from './cadesplugin_api.sign';
+import {
+  createFakeCadesPlugin,
+  createFakeTsa,
+  installFakeCryptoProExtension,
+  type FakeCryptoProExtension,
+} from './cadesplugin_api.testing';
+import { enhanceSignature, resolveTsaHashAlgorithm, resolveTsaUrls } from './cadesplugin_api.tsp';
+import { verifyCades } from './cadesplugin_api.verify';
+import { createCadesPluginClient } from './index';
+
+const certificate = { thumbprint: 'AA11', subjectName: 'CN=Alice', hasPrivateKey: true };
+const TSA = 'http://tsa.local/tsp.srf';
+const BACKUP_TSA = 'http://tsa-backup.local/tsp.srf';
+
+describe('enhanceSignature', () => {
+  it('upgrades CAdES-BES to CAdES-T and X Long Type 1', async () => {
+    const tsa = createFakeTsa({ urls: [TSA] });
+    const fake = createFakeCadesPlugin({ certificates: [certificate], tsa });
+    const bes = await signCades(fake, 'archive', { thumbprint: 'AA11' });
+
+    const t = await enhanceSignature(fake, bes, { to: 'CAdES-T', tsaUrl: TSA });
+    const xlt1 = await enhanceSignature(fake, bes, { to: 'CAdES-XLT1', tsaUrl: TSA });
+
+    expect((await verifyCades(fake, t)).signers[0]).toMatchObject({ signatureType: 'CAdES-T', timestamp: {} });
+    expect((await verifyCades(fake, xlt1)).signers[0]).toMatchObject({ signatureType: 'CAdES-XLT1' });
+    expect(tsa.requests).toEqual([TSA, TSA]);
+  });
+
+  it('reports unreachable TSAs as TSA_UNAVAILABLE', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate], tsa: createFakeTsa({ urls: [TSA] }) });
+    const bes = await signCades(fake, 'archive', { thumbprint: 'AA11' });
+
+    await expect(enhanceSignature(fake, bes, { to: 'CAdES-T', tsaUrl: BACKUP_TSA })).rejects.toMatchObject({
+      code: 'TSA_UNAVAILABLE',
+      hresult: '0x80072EE7',
+      details: { originalCode: 'ENHANCE_FAILED', to: 'CAdES-T', tsaUrl: BACKUP_TSA },
+    });
+  });
+
+  it('rejects a TSA hash algorithm the signing key cannot use', async () => {
+    const gost512 = {
+      thumbprint: 'BB22',
+      subjectName: 'CN=Bob',
+      hasPrivateKey: true,
+      keyAlgorithmOid: '1.2.643.7.1.1.1.2',
+    };
+    const tsa = createFakeTsa({ urls: [TSA] });
+    const fake = createFakeCadesPlugin({ certificates: [certificate, gost512], tsa });
+    const t = { cadesType: 'CAdES-T', tsaUrl: TSA, requireTsaHashAlgorithm: 'GOST_R3411_2012_512' } as const;
+
+    await expect(signCades(fake, 'doc', { thumbprint: 'AA11', ...t })).rejects.toMatchObject({
+      code: 'NOT_SUPPORTED',
+      details: { requireTsaHashAlgorithm: 'GOST_R3411_2012_512', hashAlgorithm: 'GOST_R3411_2012_256' },
+    });
+    await expect(signCades(fake, 'doc', { thumbprint: 'BB22', ...t })).resolves.toBeTypeOf('string');
+    // A BES signature has no time-stamp to check.
+    await expect(signCades(fake, 'doc', { ...t, thumbprint: 'AA11', cadesType: 'CAdES-BES' })).resolves.toBeTruthy();
+
+    const bes = await signCades(fake, 'archive', { thumbprint: 'AA11' });
+    await expect(
+      enhanceSignature(fake, bes, { to: 'CAdES-T', tsaUrl: TSA, requireTsaHashAlgorithm: 'GOST_R3411_2012_512' }),
+    ).rejects.toMatchObject({ code: 'NOT_SUPPORTED' });
+    expect(tsa.requests).toEqual([TSA]);
+  });
+
+  it('validates options', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [certificate] });
+
+    await expect(
+      // @ts-expect-error CAdES-BES is not an enhancement target
+      enhanceSignature(fake, 'AAAA', { to: 'CAdES-BES', tsaUrl: TSA }),
+    ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    await expect(enhanceSignature(fake, 'AAAA', { to: 'CAdES-T' })).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    await expect(enhanceSignature(fake, 'AAAA', { to: 'CAdES-T', tsaUrl: TSA })).rejects.toMatchObject({
+      code: 'ENHANCE_FAILED',
+    });
+    expect(() => resolveTsaUrls({ url: [] })).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+    expect(() => resolveTsaUrls({ url: 'tsa.local' })).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+    expect(resolveTsaUrls({ url: ` ${TSA} ` })).toEqual([TSA]);
+    expect(() =>
+      // @ts-expect-error SHA-1 is not a supported algorithm name
+      resolveTsaHashAlgorithm({ url: TSA, requireHashAlgorithm: 'SHA1' }),
+    ).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+  });
+});
+
+describe('client TSA configuration', () => {
+  let kit: FakeCryptoProExtension | null = null;
+
+  afterEach(() => {
+    kit?.uninstall();
+    kit = null;
+  });
+
+  it('uses the client TSA list and falls back when a TSA is down', async () => {
+    const tsa = createFakeTsa({ urls: [TSA, BACKUP_TSA] });
+    tsa.setUnavailable(TSA);
+    kit = installFakeCryptoProExtension(window, document, { plugin: { certificates: [certificate], tsa } });
+    const client = createCadesPluginClient(window, document, { logger: () => {}, tsa: { url: [TSA, BACKUP_TSA] } });
+    await client.ready;
+
+    const signature = await client.signCades('doc', { thumbprint: 'AA11', cadesType: 'CAdES-T' });
+    expect(tsa.requests).toEqual([TSA, BACKUP_TSA]);
+
+    const enhanced = await client.enhanceSignature(signature, { to: 'CAdES-XLT1' });
+    expect((await client.verifyCades(enhanced)).signers[0]?.signatureType).toBe('CAdES-XLT1');
+
+    // An explicit tsaUrl is used as-is.
+    await expect(client.enhanceSignature(signature, { to: 'CAdES-T', tsaUrl: TSA })).rejects.toMatchObject({
+      code: 'TSA_UNAVAILABLE',
+      hresult: '0x80072EFD',
+    });
+
+    tsa.setUnavailable(BACKUP_TSA);
+    await expect(client.enhanceSignature(signature, { to: 'CAdES-T' })).rejects.toMatchObject({
+      code: 'TSA_UNAVAILABLE',
+      details: { tsaUrl: BACKUP_TSA },
+    });
+  });
+
+  it('moves a batch to the next TSA without signing finished items again', async () => {
+    const tsa = createFakeTsa({ urls: [TSA, BACKUP_TSA] });
+    kit = installFakeCryptoProExtension(window, document, { plugin: { certificates: [certificate], tsa } });
+    const client = createCadesPluginClient(window, document, { logger: () => {}, tsa: { url: [TSA, BACKUP_TSA] } });
+    await client.ready;
+    const progress: CadesBatchSignProgress[] = [];
+
+    const results = await client.signBatch(['a', 'b', 'c', 'd'], {
+      thumbprint: 'AA11',
+      cadesType: 'CAdES-T',
+      onProgress: (p) => {
+        progress.push(p);
+        if (p.result.index === 1) tsa.setUnavailable(TSA);
+      },
+    });
+
+    expect(results.map((r) => r.status)).toEqual(['signed', 'signed', 'signed', 'signed']);
+    expect(progress.map((p) => [p.result.index, p.completed])).toEqual([
+      [0, 1],
+      [1, 2],
+      [2, 3],
+      [3, 4],
+    ]);
+    // Item 2 failed once on the first TSA; nothing was signed twice.
+    expect(tsa.requests).toEqual([TSA, TSA, TSA, BACKUP_TSA, BACKUP_TSA]);
+    expect(kit.plugin.created.filter((name) => name === 'CAdESCOM.CadesSignedData')).toHaveLength(5);
+
+    tsa.setUnavailable(BACKUP_TSA);
+    const error = await client.signBatch(['e', 'f'], { thumbprint: 'AA11', cadesType: 'CAdES-T' }).catch((e) => e);
+    expect(error).toMatchObject({ code: 'TSA_UNAVAILABLE' });
+    expect(error.details.results.map((r: CadesBatchSignResult) => r.status)).toEqual(['skipped', 'skipped']);
+  });
+
+  it('checks signing keys against the client TSA hash algorithm', async () => {
+    const tsa = createFakeTsa({ urls: [TSA] });
+    kit = installFakeCryptoProExtension(window, document, { plugin: { certificates: [certificate], tsa } });
+    const client = createCadesPluginClient(window, document, {
+      logger: () => {},
+      tsa: { url: TSA, requireHashAlgorithm: 'GOST_R3411_94' },
+    });
+    await client.ready;
+
+    await expect(client.signCades('doc', { thumbprint: 'AA11', cadesType: 'CAdES-T' })).rejects.toMatchObject({
+      code: 'NOT_SUPPORTED',
+      details: { requireTsaHashAlgorithm: 'GOST_R3411_94' },
+    });
+    await expect(
+      client.signCades('doc', {
+        thumbprint: 'AA11',
+        cadesType: 'CAdES-T',
+        requireTsaHashAlgorithm: 'GOST_R3411_2012_256',
+      }),
+    ).resolves.toBeTypeOf('string');
+  });
+});
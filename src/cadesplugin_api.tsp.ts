@@ -0,0 +1,148 @@
+import { CADESCOM_ENCODING_TYPE } from './cadesplugin_api.cadescom';
+import { loadSignedData } from './cadesplugin_api.cosign';
+import type { CadesHashAlgorithmName } from './cadesplugin_api.hash';
+import { createOperationError } from './cadesplugin_api.hresult';
+import type { CadesOperationOptions } from './cadesplugin_api.queue';
+import {
+  checkTsaHashAlgorithm,
+  stripBase64LineBreaks,
+  toCadesType,
+  validateTsaHashAlgorithm,
+  type CadesDataInput,
+  type CadesStringEncoding,
+} from './cadesplugin_api.sign';
+import { CadesPluginError, isCadesPluginError, type CadesPluginObjectFactory } from './cadesplugin_api.types';
+
+/**
+ * Client-wide time-stamp authority. CAdESCOM builds the TSP request itself, with the signature's digest algorithm.
+ */
+export type CadesTsaOptions = {
+  /**
+   * TSA URL, or several to try in order: the next one is used when a TSA is unreachable (`TSA_UNAVAILABLE`).
+   */
+  url: string | readonly string[];
+
+  /**
+   * Hash algorithm the TSA accepts (default for the operations' `requireTsaHashAlgorithm`). This is a check, not a
+   * setting: CAdESCOM always asks for the signing key's digest, so a key with another one rejects with `NOT_SUPPORTED`.
+   */
+  requireHashAlgorithm?: CadesHashAlgorithmName;
+};
+
+export type EnhanceSignatureOptions = CadesOperationOptions & {
+  /** Target format. */
+  to: 'CAdES-T' | 'CAdES-XLT1';
+
+  /**
+   * Time-stamp authority URL. The client falls back to its `tsa` option.
+   */
+  tsaUrl?: string;
+
+  /**
+   * Rejects with `NOT_SUPPORTED` unless every signer's key uses this digest, which is what the TSA is asked for (see
+   * `CadesTsaOptions.requireHashAlgorithm`).
+   */
+  requireTsaHashAlgorithm?: CadesHashAlgorithmName;
+
+  /**
+   * Signed content of a detached signature.
+   */
+  detachedContent?: CadesDataInput;
+
+  /**
+   * Encoding of a string `detachedContent` (see `SignCadesOptions.encoding`).
+   */
+  encoding?: CadesStringEncoding;
+};
+
+const ENHANCE_TARGETS: ReadonlySet<string> = new Set(['CAdES-T', 'CAdES-XLT1']);
+
+function isHttpUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\/[^\s/]+/i.test(value.trim());
+}
+
+/**
+ * Validates the client `tsa` option and returns its URLs in fallback order.
+ */
+export function resolveTsaUrls(tsa: CadesTsaOptions | undefined): string[] {
+  if (tsa === undefined) return [];
+  const urls = typeof tsa?.url === 'string' ? [tsa.url] : Array.isArray(tsa?.url) ? [...tsa.url] : null;
+  if (!urls || urls.length === 0 || !urls.every(isHttpUrl)) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'tsa.url must be an http(s) URL or a non-empty list of them', {
+      tsa,
+    });
+  }
+  return urls.map((url) => url.trim());
+}
+
+/**
+ * Validates the client `tsa.requireHashAlgorithm` option.
+ */
+export function resolveTsaHashAlgorithm(tsa: CadesTsaOptions | undefined): CadesHashAlgorithmName | undefined {
+  return validateTsaHashAlgorithm(tsa?.requireHashAlgorithm);
+}
+
+/**
+ * Runs `call` with the caller's `tsaUrl`, or with each of `urls` in turn while the TSA is unreachable. Any other
+ * failure (and the last `TSA_UNAVAILABLE`) is rethrown.
+ */
+export async function withTsaFallback<O extends { tsaUrl?: string }, T>(
+  urls: readonly string[],
+  options: O,
+  call: (options: O) => Promise<T>,
+): Promise<T> {
+  if (options.tsaUrl || urls.length === 0) return call(options);
+  for (let i = 0; ; i++) {
+    try {
+      return await call({ ...options, tsaUrl: urls[i] });
+    } catch (e) {
+      if (i === urls.length - 1 || !isCadesPluginError(e) || e.code !== 'TSA_UNAVAILABLE') throw e;
+    }
+  }
+}
+
+/**
+ * Upgrades an existing signature to CAdES-T or CAdES-XLT1 with `CadesSignedData.EnhanceCades`: adds a signature
+ * time-stamp (and, for XLT1, the certificate chain and revocation data). The signature must verify.
+ */
+export async function enhanceSignature(
+  plugin: CadesPluginObjectFactory,
+  signature: string,
+  options: EnhanceSignatureOptions,
+): Promise<string> {
+  if (!options || !ENHANCE_TARGETS.has(options.to)) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'to must be CAdES-T or CAdES-XLT1', { to: options?.to });
+  }
+  if (!options.tsaUrl) {
+    throw new CadesPluginError('INVALID_OPTIONS', `tsaUrl is required for ${options.to}`, { to: options.to });
+  }
+  validateTsaHashAlgorithm(options.requireTsaHashAlgorithm);
+  const message = typeof signature === 'string' ? stripBase64LineBreaks(signature).trim() : '';
+  if (!message) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'signature must be a non-empty base64 string');
+  }
+
+  try {
+    const { signedData, verifyError } = await loadSignedData(plugin, message, options);
+    if (verifyError !== null) throw verifyError;
+    if (options.requireTsaHashAlgorithm !== undefined) {
+      const signers = await signedData.Signers;
+      const count = await signers.Count;
+      for (let i = 1; i <= count; i++) {
+        await checkTsaHashAlgorithm(await (await signers.Item(i)).Certificate, options.requireTsaHashAlgorithm);
+      }
+    }
+    const enhanced = await signedData.EnhanceCades(
+      toCadesType(options.to),
+      options.tsaUrl,
+      CADESCOM_ENCODING_TYPE.BASE64,
+    );
+    return stripBase64LineBreaks(enhanced);
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(plugin, e, 'ENHANCE_FAILED', 'CryptoPro signature enhancement failed', {
+      to: options.to,
+      tsaUrl: options.tsaUrl,
+    });
+  }
+}
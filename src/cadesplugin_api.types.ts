@@ -1,3 +1,23 @@
+import type { CadesObjectMap } from './cadesplugin_api.cadescom';
+import type { CadesCertificateInfo, ListCertificatesOptions } from './cadesplugin_api.certificates';
+import type {
+  CadesDecryptResult,
+  CadesEncryptResult,
+  DecryptOptions,
+  EncryptOptions,
+} from './cadesplugin_api.envelope';
+import type { CadesBatchSignResult, SignBatchOptions } from './cadesplugin_api.batch';
+import type { CoSignCadesOptions, ListSignersOptions } from './cadesplugin_api.cosign';
+import type { CadesExtensionInfo, CadesExtensionQueryOptions } from './cadesplugin_api.extension';
+import type { CadesFluentPlugin } from './cadesplugin_api.fluent';
+import type { CadesHashInput, CadesHashResult, HashOptions, SignHashOptions } from './cadesplugin_api.hash';
+import type { CadesOperationQueueOptions } from './cadesplugin_api.queue';
+import type { CadesObjectCounters, CadesPluginScope } from './cadesplugin_api.scope';
+import type { CadesDataInput, SignCadesOptions } from './cadesplugin_api.sign';
+import type { CadesTsaOptions, EnhanceSignatureOptions } from './cadesplugin_api.tsp';
+import type { CadesSignerReport, CadesVerifyReport, VerifyCadesOptions } from './cadesplugin_api.verify';
+import type { CadesXmlVerifyReport, SignXmlOptions, VerifyXmlOptions } from './cadesplugin_api.xml';
+
 export type LogLevel = 1 | 2 | 4;
 export type CadesPluginLogLevelName = 'debug' | 'info' | 'error';
 
@@ -16,7 +36,37 @@ export type CadesPluginErrorCode =
   | 'EXTENSION_API_MISSING'
   | 'HANDSHAKE_TIMEOUT'
   | 'NATIVE_HOST_HANDSHAKE_FAILED'
-  | 'PLUGIN_OBJECT_MISSING';
+  | 'PLUGIN_OBJECT_MISSING'
+  | 'CERTIFICATE_STORE_FAILED'
+  | 'CERTIFICATE_NOT_FOUND'
+  | 'SIGN_FAILED'
+  | 'VERIFY_FAILED'
+  | 'HASH_FAILED'
+  | 'ENCRYPT_FAILED'
+  | 'DECRYPT_FAILED'
+  | 'DECRYPT_NO_PRIVATE_KEY'
+  | 'DECRYPT_WRONG_RECIPIENT'
+  | 'CERTIFICATE_PARSE_FAILED'
+  | 'DISPOSED'
+  | 'ABORTED'
+  | 'OPERATION_TIMEOUT'
+  | 'SCOPE_CLOSED'
+  | 'NOT_SUPPORTED'
+  | 'ENHANCE_FAILED'
+  | CadesOperationErrorCode;
+
+/**
+ * Failure reasons recognized in plugin errors (see `parseCadesError`).
+ */
+export type CadesOperationErrorCode =
+  | 'USER_CANCELLED'
+  | 'PIN_INCORRECT'
+  | 'KEYSET_NOT_FOUND'
+  | 'CERT_CHAIN_UNTRUSTED'
+  | 'CERT_EXPIRED'
+  | 'CERT_REVOKED'
+  | 'TSA_UNAVAILABLE'
+  | 'LICENSE_EXPIRED';
 
 export type CadesPluginErrorDetails = Record<string, unknown>;
 
@@ -40,7 +90,46 @@ export class CadesPluginError extends Error {
 export function isCadesPluginError(value: unknown): value is CadesPluginError {
   if (!value || typeof value !== 'object') return false;
   const v = value as any;
-  return v.name === 'CadesPluginError' && typeof v.code === 'string' && typeof v.message === 'string';
+  return (
+    (v.name === 'CadesPluginError' || v.name === 'CadesOperationError') &&
+    typeof v.code === 'string' &&
+    typeof v.message === 'string'
+  );
+}
+
+export type CadesOperationErrorDetails = CadesPluginErrorDetails & {
+  /** `0x8010006E`-style HRESULT found in the plugin error, if any. */
+  hresult: string | null;
+  /** The operation's generic code (`SIGN_FAILED`, ...), which `code` refines when the HRESULT is recognized. */
+  originalCode: CadesPluginErrorCode;
+  /** The plugin's own message (`getLastError`). */
+  originalMessage: string;
+};
+
+/**
+ * A plugin operation failed inside CryptoPro. `code` is a `CadesOperationErrorCode` when the reason is recognized
+ * (`USER_CANCELLED`, `PIN_INCORRECT`, ...) and the operation's generic code otherwise.
+ */
+export class CadesOperationError extends CadesPluginError {
+  declare readonly details: CadesOperationErrorDetails;
+  readonly hresult: string | null;
+
+  constructor(
+    code: CadesPluginErrorCode,
+    message: string,
+    details: CadesOperationErrorDetails,
+    options?: ErrorOptions,
+  ) {
+    super(code, message, details, options);
+    this.name = 'CadesOperationError';
+    this.hresult = details.hresult;
+  }
+}
+
+export function isCadesOperationError(value: unknown): value is CadesOperationError {
+  if (!isCadesPluginError(value)) return false;
+  const v = value as any;
+  return v.name === 'CadesOperationError' && typeof v.details?.originalMessage === 'string';
 }
 
 export type CadesPluginInstallOptions = {
@@ -78,8 +167,80 @@ export type CadesPluginInstallOptions = {
    * Initial log level for internal diagnostics (defaults to ERROR).
    */
   logLevel?: LogLevel;
+
+  /**
+   * Aborts initialization: script loading and handshake waiting stop, listeners are removed, `window.cadesplugin`
+   * is deleted and the init rejects with `ABORTED`. Ignored once initialization has completed.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called for every initialization stage, including the ones that happen synchronously inside
+   * `installCadesPlugin` (see `CadesPluginGlobal.onStateChange`).
+   */
+  onStateChange?: CadesPluginLifecycleListener;
+};
+
+export type CadesCspViolation = {
+  blockedURI: string;
+  effectiveDirective: string;
+  violatedDirective: string;
+};
+
+export type CadesPluginScriptAttempt = {
+  url: string;
+  status: 'loaded' | 'failed';
+  durationMs: number;
+  cspViolation: CadesCspViolation | null;
 };
 
+/**
+ * What `installCadesPlugin` observed during initialization (timestamps are `Date.now()` values).
+ */
+export type CadesPluginInitTrace = {
+  startedAt: number;
+  finishedAt: number | null;
+  scripts: CadesPluginScriptAttempt[];
+  loadedUrl: string | null;
+  /** Time from `cadesplugin_echo_request` to `cadesplugin_loaded`. */
+  handshakeMs: number | null;
+  /** Time spent in `check_chrome_plugin` (native host connection). */
+  nativeHostMs: number | null;
+  errorCode: CadesPluginErrorCode | null;
+};
+
+export type CadesPluginState = 'idle' | 'loading-script' | 'handshaking' | 'native-host' | 'ready' | 'failed';
+
+type CadesPluginLifecycleStage =
+  | { type: 'script-loading'; url: string }
+  | { type: 'script-loaded'; url: string; durationMs: number }
+  | { type: 'csp-violation'; url: string; violation: CadesCspViolation }
+  | { type: 'script-failed'; url: string; durationMs: number }
+  /** `cpcsp_chrome_nmcades` is present after the script load. */
+  | { type: 'extension-api-found'; url: string }
+  | { type: 'handshake-started' }
+  | { type: 'handshake-completed'; durationMs: number }
+  /** `check_chrome_plugin` was called. */
+  | { type: 'native-host-started' }
+  | { type: 'native-host-connected'; durationMs: number }
+  /** The extension handed over the plugin object (`cadesplugin.set`). */
+  | { type: 'plugin-object-set' }
+  | { type: 'ready'; totalMs: number }
+  | { type: 'failed'; totalMs: number; error: CadesPluginError }
+  /** `dispose()` or an aborted `signal` tore the plugin down; the state goes back to `idle`. */
+  | { type: 'disposed' };
+
+/**
+ * One initialization stage. `state` is the state after the stage, `at` a `Date.now()` timestamp.
+ */
+export type CadesPluginLifecycleEvent = CadesPluginLifecycleStage & {
+  state: CadesPluginState;
+  previousState: CadesPluginState;
+  at: number;
+};
+
+export type CadesPluginLifecycleListener = (event: CadesPluginLifecycleEvent) => void;
+
 /**
  * `window.cadesplugin` is a Promise-like object (thenable) that is also extended
  * with CryptoPro API methods. This matches how the upstream script behaves,
@@ -104,10 +265,37 @@ export interface CadesPluginGlobal extends PromiseLike<void> {
     generatorFunc: (args: any[]) => Generator<any, T, any>,
     ...args: any[]
   ): Promise<T>;
+  /**
+   * `async_spawn` that stops resuming the generator (running its `finally` blocks) and rejects with `ABORTED`
+   * once `signal` fires. Not part of the upstream API.
+   */
+  async_spawn_with_signal?<T>(
+    signal: AbortSignal | undefined,
+    generatorFunc: (args: any[]) => Generator<any, T, any>,
+    ...args: any[]
+  ): Promise<T>;
+  CreateObjectAsync<K extends keyof CadesObjectMap>(name: K): Promise<CadesObjectMap[K]>;
   CreateObjectAsync(name: string): any;
 
   // Diagnostics
   getLastError(exception: unknown): string;
+  /** Initialization trace (absent on globals installed by the upstream script). */
+  readonly initTrace?: CadesPluginInitTrace;
+  /**
+   * Removes injected scripts, listeners and timers, releases plugin objects and deletes `window.cadesplugin`.
+   * A pending initialization rejects with `DISPOSED`. Absent on globals installed by the upstream script.
+   */
+  dispose?(): void;
+
+  /** Current initialization state. Absent on globals installed by the upstream script. */
+  readonly state?: CadesPluginState;
+  /** Every lifecycle event so far, oldest first. */
+  readonly lifecycle?: readonly CadesPluginLifecycleEvent[];
+  /**
+   * Subscribes to lifecycle events (script load per URL, CSP violation, extension API presence, echo handshake,
+   * `check_chrome_plugin`, plugin object, ready/failed). Returns the unsubscribe function.
+   */
+  onStateChange?(listener: CadesPluginLifecycleListener): () => void;
 
   // Extension bridge (the extension calls this to provide the underlying plugin object)
   set(pluginObject: unknown): void;
@@ -122,15 +310,159 @@ export interface CadesPluginGlobal extends PromiseLike<void> {
   finally?(onfinally?: (() => void) | null): Promise<void>;
 }
 
+/**
+ * The subset of `window.cadesplugin` that high-level operations need to create and release plugin objects.
+ */
+export type CadesPluginObjectFactory = Pick<
+  CadesPluginGlobal,
+  'CreateObjectAsync' | 'getLastError' | 'ReleasePluginObjects'
+>;
+
+export type CadesPluginClientOptions = CadesPluginInstallOptions & {
+  /**
+   * Runs client operations (and `async_spawn` jobs) through a queue: one at a time by default, with per-operation
+   * timeouts (`OPERATION_TIMEOUT`) and `priority`. Off by default. Do not call queued client methods from inside a
+   * queued `async_spawn` job: with `concurrency: 1` the inner call waits for the outer one until it times out.
+   */
+  queue?: boolean | CadesOperationQueueOptions;
+
+  /**
+   * Time-stamp authority used by CAdES-T/XLT1 operations that do not pass their own `tsaUrl`. With several URLs,
+   * an unreachable TSA (`TSA_UNAVAILABLE`) is retried with the next one.
+   */
+  tsa?: CadesTsaOptions;
+};
+
 /**
  * Modern non-thenable wrapper around the upstream thenable `window.cadesplugin`.
  * Useful because Promises/async functions cannot "return a thenable" without it being unwrapped to `void`.
  */
 export interface CadesPluginClient {
-  raw: CadesPluginGlobal;
-  ready: Promise<void>;
+  /** The current `window.cadesplugin`; replaced by `reinitialize()`. */
+  readonly raw: CadesPluginGlobal;
+  /** Settles with the current initialization; replaced by `reinitialize()`. */
+  readonly ready: Promise<void>;
+  /** State of the current initialization. */
+  readonly state: CadesPluginState;
+  /** Lifecycle events of the current initialization. */
+  readonly lifecycle: readonly CadesPluginLifecycleEvent[];
+  /** Waiting plus running operations of the queue (always 0 when `queue` is off). */
+  readonly queueDepth: number;
+  /** Plugin objects created through the client, for leak diagnostics (a snapshot). */
+  readonly objectCounters: CadesObjectCounters;
+
+  /**
+   * Subscribes to lifecycle events; stays subscribed across `reinitialize()`. Returns the unsubscribe function.
+   */
+  onStateChange(listener: CadesPluginLifecycleListener): () => void;
+
+  /**
+   * Version, id and manifest flavour of the installed extension. Does not wait for `ready`. Rejects with
+   * `OPERATION_TIMEOUT` when the extension does not answer.
+   */
+  getExtensionInfo(options?: CadesExtensionQueryOptions): Promise<CadesExtensionInfo>;
 
   async_spawn: CadesPluginGlobal['async_spawn'];
+  /** Falls back to rejecting without stopping the generator on globals that lack `async_spawn_with_signal`. */
+  async_spawn_with_signal: NonNullable<CadesPluginGlobal['async_spawn_with_signal']>;
   CreateObjectAsync: CadesPluginGlobal['CreateObjectAsync'];
   getLastError: CadesPluginGlobal['getLastError'];
+
+  /**
+   * `CreateObjectAsync` returning async/await-friendly proxies: `await store.Certificates.Count`,
+   * `signer.Certificate = cert`. An alternative to `async_spawn` generators.
+   */
+  readonly fluent: CadesFluentPlugin;
+
+  /**
+   * Runs `fn` with a scope and releases the plugin objects created inside it when `fn` settles. Client operations
+   * started while a scope is open release their objects when the last open scope closes instead of right away.
+   */
+  withScope<T>(fn: (scope: CadesPluginScope) => Promise<T>): Promise<T>;
+
+  /**
+   * Opens a scope for `using` / `await using` (or call `close()` yourself).
+   */
+  createScope(): CadesPluginScope;
+
+  /**
+   * Lists certificates from a store as plain, serializable records.
+   */
+  listCertificates(options?: ListCertificatesOptions): Promise<CadesCertificateInfo[]>;
+
+  /**
+   * Creates a CAdES-BES/T/X Long Type 1 signature and returns it as base64.
+   */
+  signCades(data: CadesDataInput, options: SignCadesOptions): Promise<string>;
+
+  /**
+   * Signs many items with one signer (one certificate lookup, one PIN prompt). Item failures are returned as
+   * results; an abort rejects with the results so far in `details.results`. The batch runs as a single queued
+   * operation, so raise `timeoutMs` for large batches.
+   */
+  signBatch(items: readonly CadesDataInput[], options: SignBatchOptions): Promise<CadesBatchSignResult[]>;
+
+  /**
+   * Verifies a CAdES signature and returns a per-signer report (does not throw on invalid signatures).
+   */
+  verifyCades(signature: string, options?: VerifyCadesOptions): Promise<CadesVerifyReport>;
+
+  /**
+   * Signers already present in a CAdES signature, e.g. before adding another one.
+   */
+  listSigners(signature: string, options?: ListSignersOptions): Promise<CadesSignerReport[]>;
+
+  /**
+   * Adds a parallel signature (`CoSignCades`) to an existing CAdES message and returns the new message as base64.
+   */
+  coSign(signature: string, options: CoSignCadesOptions): Promise<string>;
+
+  /**
+   * Upgrades an existing signature to CAdES-T or CAdES-XLT1 (`EnhanceCades`) and returns it as base64.
+   */
+  enhanceSignature(signature: string, options: EnhanceSignatureOptions): Promise<string>;
+
+  /**
+   * Hashes large inputs (Blob/File/ReadableStream) chunk by chunk with `CAdESCOM.HashedData`.
+   */
+  hash(input: CadesHashInput, options?: HashOptions): Promise<CadesHashResult>;
+
+  /**
+   * Creates a detached CAdES signature from a `hash()` result without sending the content.
+   */
+  signHash(hash: CadesHashResult, options: SignHashOptions): Promise<string>;
+
+  /**
+   * Creates an XMLDSig / XAdES-BES signature and returns the signed XML document.
+   */
+  signXml(xml: string, options: SignXmlOptions): Promise<string>;
+
+  /**
+   * Verifies an XML signature and returns a report (does not throw on invalid signatures).
+   */
+  verifyXml(signedXml: string, options?: VerifyXmlOptions): Promise<CadesXmlVerifyReport>;
+
+  /**
+   * Encrypts data for recipients given by thumbprint or certificate (CMS EnvelopedData).
+   */
+  encrypt(data: CadesDataInput, options: EncryptOptions): Promise<CadesEncryptResult>;
+
+  /**
+   * Decrypts a base64 CMS EnvelopedData with a private key from the store.
+   */
+  decrypt(envelope: string, options?: DecryptOptions): Promise<CadesDecryptResult>;
+
+  /**
+   * Tears the plugin down (see `CadesPluginGlobal.dispose`). Operations fail until `reinitialize()`.
+   */
+  dispose(): void;
+
+  /**
+   * Disposes the current plugin and runs the load → handshake → native host sequence again, e.g. after
+   * `PLUGIN_LOAD_TIMEOUT` or once the user has installed the extension. Resolves with the new `ready`.
+   */
+  reinitialize(): Promise<void>;
+
+  /** Alias of `reinitialize()` for "Retry" buttons. */
+  retry(): Promise<void>;
 }
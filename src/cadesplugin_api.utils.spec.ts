@@ -2,12 +2,21 @@ import { describe, expect, it } from 'vitest';
 import {
   CRYPTOPRO_EXTENSION_IDS,
   CRYPTOPRO_EXTENSION_ORIGINS,
+  base64ToBytes,
   buildCryptoProExtensionApiUrls,
+  bytesToBase64,
+  compareVersions,
   detectBrowser,
+  formatDistinguishedName,
   isCadesPluginLoadedMessage,
   isLikelyAdminPathname,
+  isThumbprintLike,
   isValidCryptoProExtensionApiUrl,
+  isVersionAtLeast,
+  parseDistinguishedName,
   parsePostMessageStringResponse,
+  parseVersion,
+  pemToBase64,
 } from './cadesplugin_api.utils';
 
 describe('CryptoPro cadesplugin_api utils', () => {
@@ -87,6 +96,78 @@ describe('CryptoPro cadesplugin_api utils', () => {
     expect(isLikelyAdminPathname('/en/account/orders')).toBe(false);
     expect(isLikelyAdminPathname('/english/admin')).toBe(false);
     expect(isLikelyAdminPathname('/foo/admin')).toBe(false);
+    // Empty segments are not skipped, unlike `matchesPathnamePattern`.
+    expect(isLikelyAdminPathname('//admin')).toBe(false);
+    expect(isLikelyAdminPathname('/en//admin')).toBe(false);
+  });
+
+  it('isThumbprintLike/pemToBase64: tell thumbprints from certificates', () => {
+    expect(isThumbprintLike('01 23 45 67 89 ab cd ef 01 23 45 67 89 ab cd ef 01 23 45 67')).toBe(true);
+    expect(isThumbprintLike('MIIBszCCAWCgAwIBAgI')).toBe(false);
+    expect(pemToBase64('-----BEGIN CERTIFICATE-----\nMIIB\nszCC\n-----END CERTIFICATE-----\n')).toBe('MIIBszCC');
+  });
+
+  it('bytesToBase64/base64ToBytes: round-trips binary data', () => {
+    const bytes = new Uint8Array(70_000).map((_, i) => i % 256);
+    const base64 = bytesToBase64(bytes);
+    expect(base64).toBe(Buffer.from(bytes).toString('base64'));
+    expect(base64ToBytes(base64)).toEqual(bytes);
+    expect(base64ToBytes('aGVs\r\nbG8=')).toEqual(new TextEncoder().encode('hello'));
+  });
+
+  it('parseDistinguishedName: normalizes OIDs, short names and Russian aliases', () => {
+    const dn =
+      'CN="ООО ""Ромашка"", филиал", SN=Иванов, G=Иван Иванович, T=Директор, O="ООО ""Ромашка""", ' +
+      'ИНН=771234567890, ИНН ЮЛ=7712345678, ОГРН=1027700000000, OID.1.2.643.100.3=12345678901, ' +
+      '1.2.840.113549.1.9.1=ivanov@example.ru, C=RU, Unknown=x';
+    expect(parseDistinguishedName(dn)).toEqual({
+      commonName: 'ООО "Ромашка", филиал',
+      surname: 'Иванов',
+      givenName: 'Иван Иванович',
+      title: 'Директор',
+      organization: 'ООО "Ромашка"',
+      inn: '771234567890',
+      innle: '7712345678',
+      ogrn: '1027700000000',
+      snils: '12345678901',
+      email: 'ivanov@example.ru',
+      country: 'RU',
+    });
   });
-});
 
+  it('parseDistinguishedName: handles RFC 4514 escapes and separators', () => {
+    expect(parseDistinguishedName('CN=Smith\\, John;OU=IT+OU=Ops, O=\\D0\\A0\\D0\\BE\\D0\\BC, SNILS=123')).toEqual({
+      commonName: 'Smith, John',
+      organizationalUnit: 'IT',
+      organization: 'Ром',
+      snils: '123',
+    });
+    expect(parseDistinguishedName('')).toEqual({});
+    expect(parseDistinguishedName('garbage, CN=ok')).toEqual({ commonName: 'ok' });
+  });
+
+  it('formatDistinguishedName: quotes special characters and round-trips', () => {
+    const name = { commonName: 'ООО "Ромашка", филиал', inn: '771234567890', snils: '12345678901', title: 'Директор' };
+    const dn = formatDistinguishedName(name);
+    expect(dn).toBe('CN="ООО ""Ромашка"", филиал", T=Директор, INN=771234567890, SNILS=12345678901');
+    expect(parseDistinguishedName(dn)).toEqual(name);
+  });
+
+  it('compareVersions: compares numeric parts and pre-releases', () => {
+    expect(parseVersion('v1.3.2-beta.1')).toEqual({ parts: [1, 3, 2], prerelease: 'beta.1' });
+    expect(parseVersion('latest')).toBeNull();
+    expect(compareVersions('1.3', '1.3.0')).toBe(0);
+    expect(compareVersions('1.10.0', '1.9.9')).toBe(1);
+    expect(compareVersions('2.0.15000', '2.0.15400')).toBe(-1);
+    expect(compareVersions('1.3.0-rc.2', '1.3.0-rc.10')).toBe(-1);
+    expect(compareVersions('1.3.0-rc.1', '1.3.0')).toBe(-1);
+    expect(compareVersions('garbage', '0.0.1')).toBe(-1);
+  });
+
+  it('isVersionAtLeast: gates features and rejects missing versions', () => {
+    expect(isVersionAtLeast('1.3.2', '1.3')).toBe(true);
+    expect(isVersionAtLeast('1.2.13', '1.3')).toBe(false);
+    expect(isVersionAtLeast(null, '1.0')).toBe(false);
+    expect(isVersionAtLeast('unknown', '0')).toBe(false);
+  });
+});
@@ -74,6 +74,99 @@ export function isCadesPluginLoadedMessage(data: unknown): boolean {
   return typeof data === 'string' && data.includes('cadesplugin_loaded');
 }
 
+const VERSION_RE = /^\s*v?(\d+(?:\.\d+)*)(?:-([0-9a-z.-]+))?(?:\+[0-9a-z.-]+)?\s*$/i;
+
+/**
+ * `1.3.2`, `2.0.15000`, `1.3-beta.1` → numeric parts and pre-release tag; `null` for anything else.
+ */
+export function parseVersion(version: string): { parts: number[]; prerelease: string | null } | null {
+  const match = typeof version === 'string' ? version.match(VERSION_RE) : null;
+  if (!match) return null;
+  return { parts: match[1]!.split('.').map(Number), prerelease: match[2] ?? null };
+}
+
+/**
+ * Semver-style comparison (-1, 0, 1). Missing parts count as 0 (`1.3` equals `1.3.0`), a pre-release sorts before
+ * its release, and an unparseable version sorts before every valid one.
+ */
+export function compareVersions(a: string, b: string): -1 | 0 | 1 {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return left ? 1 : right ? -1 : 0;
+
+  const length = Math.max(left.parts.length, right.parts.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (left.parts[i] ?? 0) - (right.parts[i] ?? 0);
+    if (diff !== 0) return diff < 0 ? -1 : 1;
+  }
+  if (left.prerelease === right.prerelease) return 0;
+  if (left.prerelease === null) return 1;
+  if (right.prerelease === null) return -1;
+  return comparePrerelease(left.prerelease.split('.'), right.prerelease.split('.'));
+}
+
+// Semver precedence: numeric identifiers compare as numbers and sort before alphanumeric ones.
+function comparePrerelease(left: string[], right: string[]): -1 | 0 | 1 {
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const l = left[i];
+    const r = right[i];
+    if (l === r) continue;
+    if (l === undefined) return -1;
+    if (r === undefined) return 1;
+    const ln = /^\d+$/.test(l) ? Number(l) : null;
+    const rn = /^\d+$/.test(r) ? Number(r) : null;
+    if (ln !== null && rn !== null) return ln < rn ? -1 : 1;
+    if (ln !== null) return -1;
+    if (rn !== null) return 1;
+    return l < r ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Feature gate: `isVersionAtLeast(info.version, '1.3')`. False for a missing or unparseable version.
+ */
+export function isVersionAtLeast(version: string | null | undefined, minimum: string): boolean {
+  return typeof version === 'string' && parseVersion(version) !== null && compareVersions(version, minimum) >= 0;
+}
+
+export type PathnamePatternOptions = {
+  /**
+   * Also match the pattern behind a language prefix (`/en/admin`). `true` (default) accepts 2-letter codes,
+   * a RegExp tests the first path segment.
+   */
+  languagePrefix?: boolean | RegExp;
+};
+
+const LANGUAGE_SEGMENT_RE = /^[a-z]{2}$/i;
+
+function matchesSegments(segments: readonly string[], patternSegments: readonly string[]): boolean {
+  if (segments.length < patternSegments.length) return false;
+  return patternSegments.every((p, i) => p === '*' || p === segments[i]);
+}
+
+/**
+ * Matches a pathname against a route prefix such as `/admin` or `/orders/*\/sign` (`*` is one segment).
+ * The prefix must end on a segment boundary (`/admin` matches `/admin/x` but not `/administrator`) and may be
+ * preceded by a language prefix (`/en/admin`).
+ */
+export function matchesPathnamePattern(
+  pathname: string,
+  pattern: string,
+  options?: PathnamePatternOptions,
+): boolean {
+  const toSegments = (value: string) => (value || '').split('/').filter(Boolean);
+  const segments = toSegments(pathname);
+  const patternSegments = toSegments(pattern);
+  if (patternSegments.length === 0) return true;
+  if (matchesSegments(segments, patternSegments)) return true;
+
+  const languagePrefix = options?.languagePrefix ?? true;
+  if (languagePrefix === false || segments.length === 0) return false;
+  const languageRe = languagePrefix === true ? LANGUAGE_SEGMENT_RE : languagePrefix;
+  return languageRe.test(segments[0]!) && matchesSegments(segments.slice(1), patternSegments);
+}
+
 /**
  * Detect `/admin` pages even when language-url-prefix routing is enabled (`/en/admin/...`).
  * This is used for CSP-related diagnostics client-side.
@@ -96,3 +189,294 @@ export function isLikelyAdminPathname(pathname: string): boolean {
   return normalized === prefix || normalized.startsWith(`${prefix}/`);
 }
 
+/**
+ * Encodes bytes as base64 without relying on Node's `Buffer` (works in browsers and Node >= 16).
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+const THUMBPRINT_RE = /^[0-9a-f]{40}$/i;
+
+/**
+ * Distinguishes thumbprints (40 hex chars, separators allowed) from certificates.
+ */
+export function isThumbprintLike(value: string): boolean {
+  return THUMBPRINT_RE.test(String(value ?? '').replace(/[\s:\u200e]/g, ''));
+}
+
+/**
+ * Strips PEM armor and whitespace from a base64/PEM certificate.
+ */
+export function pemToBase64(value: string): string {
+  return String(value ?? '')
+    .replace(/-----(BEGIN|END) [^-]+-----/g, '')
+    .replace(/\s+/g, '');
+}
+
+/**
+ * Typed view of the distinguished-name attributes found in Russian qualified certificates.
+ */
+export type CadesDistinguishedName = {
+  commonName?: string;
+  surname?: string;
+  givenName?: string;
+  title?: string;
+  organization?: string;
+  organizationalUnit?: string;
+  locality?: string;
+  state?: string;
+  country?: string;
+  street?: string;
+  email?: string;
+  serialNumber?: string;
+  /** ИНН of an individual (1.2.643.3.131.1.1). */
+  inn?: string;
+  /** ИНН of a legal entity (1.2.643.100.4). */
+  innle?: string;
+  /** ОГРН (1.2.643.100.1). */
+  ogrn?: string;
+  /** ОГРНИП (1.2.643.100.5). */
+  ogrnip?: string;
+  /** СНИЛС (1.2.643.100.3). */
+  snils?: string;
+};
+
+export type DistinguishedNameAttributeSpec = {
+  oid: string;
+  shortName: string;
+  field: keyof CadesDistinguishedName;
+  /** Other names the plugin or CAs use for the attribute (case-insensitive), including Russian ones. */
+  aliases: readonly string[];
+};
+
+export const DISTINGUISHED_NAME_ATTRIBUTES: readonly DistinguishedNameAttributeSpec[] = [
+  { oid: '2.5.4.3', shortName: 'CN', field: 'commonName', aliases: ['commonName'] },
+  { oid: '2.5.4.4', shortName: 'SN', field: 'surname', aliases: ['surname', 'Фамилия'] },
+  { oid: '2.5.4.42', shortName: 'G', field: 'givenName', aliases: ['GN', 'givenName', 'Имя Отчество'] },
+  { oid: '2.5.4.12', shortName: 'T', field: 'title', aliases: ['title', 'Должность'] },
+  { oid: '2.5.4.10', shortName: 'O', field: 'organization', aliases: ['organizationName', 'Организация'] },
+  { oid: '2.5.4.11', shortName: 'OU', field: 'organizationalUnit', aliases: ['organizationalUnitName', 'Подразделение'] },
+  { oid: '2.5.4.7', shortName: 'L', field: 'locality', aliases: ['localityName', 'Город'] },
+  { oid: '2.5.4.8', shortName: 'S', field: 'state', aliases: ['ST', 'stateOrProvinceName', 'Регион'] },
+  { oid: '2.5.4.6', shortName: 'C', field: 'country', aliases: ['countryName', 'Страна'] },
+  { oid: '2.5.4.9', shortName: 'STREET', field: 'street', aliases: ['streetAddress', 'Адрес'] },
+  { oid: '1.2.840.113549.1.9.1', shortName: 'E', field: 'email', aliases: ['EMAIL', 'emailAddress'] },
+  { oid: '2.5.4.5', shortName: 'SERIALNUMBER', field: 'serialNumber', aliases: [] },
+  { oid: '1.2.643.3.131.1.1', shortName: 'INN', field: 'inn', aliases: ['ИНН'] },
+  { oid: '1.2.643.100.4', shortName: 'INNLE', field: 'innle', aliases: ['ИНН ЮЛ', 'ИННЮЛ'] },
+  { oid: '1.2.643.100.1', shortName: 'OGRN', field: 'ogrn', aliases: ['ОГРН'] },
+  { oid: '1.2.643.100.5', shortName: 'OGRNIP', field: 'ogrnip', aliases: ['ОГРНИП'] },
+  { oid: '1.2.643.100.3', shortName: 'SNILS', field: 'snils', aliases: ['СНИЛС'] },
+];
+
+function normalizeAttributeKey(key: string): string {
+  return key
+    .trim()
+    .replace(/^oid\./i, '')
+    .replace(/\s+/g, ' ')
+    .toUpperCase();
+}
+
+const ATTRIBUTE_BY_KEY = new Map<string, DistinguishedNameAttributeSpec>(
+  DISTINGUISHED_NAME_ATTRIBUTES.flatMap((spec) =>
+    [spec.oid, spec.shortName, ...spec.aliases].map((key) => [normalizeAttributeKey(key), spec] as const),
+  ),
+);
+
+/**
+ * Resolves an attribute key as written in a DN (`CN`, `OID.1.2.643.100.3`, `СНИЛС`, ...) to its spec.
+ */
+export function findDistinguishedNameAttribute(key: string): DistinguishedNameAttributeSpec | null {
+  return ATTRIBUTE_BY_KEY.get(normalizeAttributeKey(String(key ?? ''))) ?? null;
+}
+
+/**
+ * Splits a DN string into `key=value` pairs. Handles `,`/`;`/`+` separators, quoted values with doubled
+ * (`""`) or backslash-escaped quotes, and RFC 4514 escapes including `\XX` UTF-8 hex pairs.
+ */
+export function splitDistinguishedName(dn: string): Array<{ key: string; value: string }> {
+  const input = String(dn ?? '');
+  const pairs: Array<{ key: string; value: string }> = [];
+  let i = 0;
+
+  const decodeHex = (bytes: number[]) => new TextDecoder('utf-8').decode(new Uint8Array(bytes));
+
+  while (i < input.length) {
+    while (i < input.length && /[\s,;+]/.test(input[i]!)) i++;
+    if (i >= input.length) break;
+
+    const eq = input.indexOf('=', i);
+    if (eq < 0) break;
+    // A stray segment without `=` (e.g. `junk, CN=...`) must not swallow the next key.
+    const key = input.slice(i, eq).split(/[,;+]/).pop()!.trim();
+    i = eq + 1;
+    while (i < input.length && input[i] === ' ') i++;
+
+    let value = '';
+    if (input[i] === '"') {
+      i++;
+      while (i < input.length) {
+        const ch = input[i]!;
+        if (ch === '\\' && i + 1 < input.length) {
+          value += input[i + 1];
+          i += 2;
+        } else if (ch === '"' && input[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (ch === '"') {
+          i++;
+          break;
+        } else {
+          value += ch;
+          i++;
+        }
+      }
+      // Skip anything between the closing quote and the next separator.
+      while (i < input.length && !/[,;+]/.test(input[i]!)) i++;
+    } else {
+      let hexBytes: number[] = [];
+      const flushHex = () => {
+        if (hexBytes.length) value += decodeHex(hexBytes);
+        hexBytes = [];
+      };
+      while (i < input.length && !/[,;+]/.test(input[i]!)) {
+        const ch = input[i]!;
+        if (ch === '\\' && /^[0-9a-f]{2}$/i.test(input.slice(i + 1, i + 3))) {
+          hexBytes.push(parseInt(input.slice(i + 1, i + 3), 16));
+          i += 3;
+          continue;
+        }
+        flushHex();
+        if (ch === '\\' && i + 1 < input.length) {
+          value += input[i + 1];
+          i += 2;
+        } else {
+          value += ch;
+          i++;
+        }
+      }
+      flushHex();
+      value = value.trim();
+    }
+
+    if (key) pairs.push({ key, value });
+  }
+
+  return pairs;
+}
+
+/**
+ * Parses a DN such as `Certificate.SubjectName` (`CN=ООО "Ромашка", ИНН=..., OID.1.2.643.100.3=...`)
+ * into a typed record. OIDs, short names and Russian aliases are normalized; unknown attributes are ignored
+ * and the first value of a repeated attribute wins.
+ */
+export function parseDistinguishedName(dn: string): CadesDistinguishedName {
+  const result: CadesDistinguishedName = {};
+  for (const { key, value } of splitDistinguishedName(dn)) {
+    const spec = findDistinguishedNameAttribute(key);
+    if (spec && result[spec.field] === undefined) result[spec.field] = value;
+  }
+  return result;
+}
+
+function quoteDistinguishedNameValue(value: string): string {
+  if (value === '' || /[,;+="\\<>#\n]|^\s|\s$/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Formats a typed record back into a DN string with short names (`CN=..., SN=..., INN=...`), in the
+ * order of `DISTINGUISHED_NAME_ATTRIBUTES`. Values with special characters are quoted the way the plugin
+ * does it (`O="ООО ""Ромашка"""`).
+ */
+export function formatDistinguishedName(name: CadesDistinguishedName): string {
+  return DISTINGUISHED_NAME_ATTRIBUTES.filter((spec) => typeof name?.[spec.field] === 'string')
+    .map((spec) => `${spec.shortName}=${quoteDistinguishedNameValue(name[spec.field]!)}`)
+    .join(', ');
+}
+
+function rotl(x: number, n: number): number {
+  return (x << n) | (x >>> (32 - n));
+}
+
+/**
+ * SHA-1 of the given bytes as upper-case hex. Only used to compute certificate thumbprints locally
+ * (synchronously, without WebCrypto), not for anything security-sensitive.
+ */
+export function sha1Hex(bytes: Uint8Array): string {
+  const bitLength = bytes.length * 8;
+  const paddedLength = (((bytes.length + 8) >> 6) + 1) << 6;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  let h0 = 0x67452301;
+  let h1 = 0xefcdab89;
+  let h2 = 0x98badcfe;
+  let h3 = 0x10325476;
+  let h4 = 0xc3d2e1f0;
+  const w = new Uint32Array(80);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 80; i++) w[i] = rotl(w[i - 3]! ^ w[i - 8]! ^ w[i - 14]! ^ w[i - 16]!, 1);
+
+    let a = h0;
+    let b = h1;
+    let c = h2;
+    let d = h3;
+    let e = h4;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (rotl(a, 5) + f + e + k + w[i]!) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = temp;
+    }
+
+    h0 = (h0 + a) | 0;
+    h1 = (h1 + b) | 0;
+    h2 = (h2 + c) | 0;
+    h3 = (h3 + d) | 0;
+    h4 = (h4 + e) | 0;
+  }
+
+  return [h0, h1, h2, h3, h4]
+    .map((h) => (h >>> 0).toString(16).padStart(8, '0'))
+    .join('')
+    .toUpperCase();
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { signCades } from './cadesplugin_api.sign';
+import { createFakeCadesPlugin } from './cadesplugin_api.testing';
+import { verifyCades } from './cadesplugin_api.verify';
+
+const signer = {
+  thumbprint: 'aabb',
+  subjectName: 'CN=Signer',
+  validFrom: '2024-01-01T00:00:00Z',
+  validTo: '2099-01-01T00:00:00Z',
+};
+
+describe('CryptoPro verifyCades', () => {
+  it('reports signers of a valid detached CAdES-T signature', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [signer] });
+    const plugin = Object.assign(fake, { ReleasePluginObjects: vi.fn() });
+    const signature = await signCades(fake, 'hello', {
+      thumbprint: 'AABB',
+      detached: true,
+      cadesType: 'CAdES-T',
+      tsaUrl: 'http://tsa.local/tsp.srf',
+    });
+
+    // Plug-ins wrap base64 lines; verifyCades passes a single line to VerifyCades.
+    const report = await verifyCades(plugin, signature.replace(/(.{16})/g, '$1\r\n'), { detachedContent: 'hello' });
+
+    expect(report).toMatchObject({
+      valid: true,
+      detached: true,
+      error: null,
+      signers: [
+        {
+          certificate: { thumbprint: 'AABB', subjectName: 'CN=Signer' },
+          signingTime: expect.any(String),
+          signatureType: 'CAdES-T',
+          timestamp: { time: expect.any(String) },
+          signatureValid: true,
+          certificateValid: true,
+        },
+      ],
+    });
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+  });
+
+  it('returns an invalid report instead of throwing', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [signer] });
+    const signature = await signCades(fake, 'hello', { thumbprint: 'AABB', detached: true });
+
+    const report = await verifyCades(fake, signature, { detachedContent: 'tampered' });
+
+    expect(report.valid).toBe(false);
+    expect(report.detached).toBe(true);
+    expect(report.error).toEqual({ code: 'VERIFY_FAILED', message: 'Invalid signature.' });
+    expect((await verifyCades(fake, 'MIIB')).error).toMatchObject({ code: 'VERIFY_FAILED' });
+  });
+
+  it('marks the report invalid when a signer certificate is not valid', async () => {
+    const fake = createFakeCadesPlugin({ certificates: [{ ...signer, validTo: '2025-01-01T00:00:00Z' }] });
+    const signature = await signCades(fake, 'hello', { thumbprint: 'AABB' });
+
+    expect((await verifyCades(fake, signature)).valid).toBe(false);
+    expect((await verifyCades(fake, signature, { verifyChain: false })).valid).toBe(true);
+  });
+});
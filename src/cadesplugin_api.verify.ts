@@ -0,0 +1,161 @@
+import { CADESCOM_CADES_TYPE, type CadesSigner } from './cadesplugin_api.cadescom';
+import {
+  readCertificateInfo,
+  toIsoDate,
+  type CadesCertificateInfo,
+} from './cadesplugin_api.certificates';
+import { describeOperationError } from './cadesplugin_api.hresult';
+import type { CadesOperationOptions } from './cadesplugin_api.queue';
+import {
+  stripBase64LineBreaks,
+  toCadesContent,
+  type CadesDataInput,
+  type CadesSignatureType,
+  type CadesStringEncoding,
+} from './cadesplugin_api.sign';
+import {
+  CadesPluginError,
+  type CadesPluginErrorCode,
+  type CadesPluginObjectFactory,
+} from './cadesplugin_api.types';
+
+export type VerifyCadesOptions = CadesOperationOptions & {
+  /**
+   * Signed content for detached signatures. When omitted the signature is verified as attached.
+   */
+  detachedContent?: CadesDataInput;
+
+  /**
+   * Encoding of a string `detachedContent` (see `SignCadesOptions.encoding`).
+   */
+  encoding?: CadesStringEncoding;
+
+  /**
+   * Check every signer certificate status (`Certificate.IsValid()`), defaults to true.
+   */
+  verifyChain?: boolean;
+};
+
+export type CadesSignerReport = {
+  certificate: CadesCertificateInfo | null;
+  /** Signing-time attribute (ISO 8601), when present. */
+  signingTime: string | null;
+  /** Detected format: a signature time-stamp means CAdES-T, added revocation data means CAdES-XLT1. */
+  signatureType: CadesSignatureType;
+  timestamp: { time: string } | null;
+  /** `Signer.SignatureStatus.IsValid`, `null` when the plugin does not report it. */
+  signatureValid: boolean | null;
+  /** Certificate chain/validity status, `null` when `verifyChain` is false or the status is unavailable. */
+  certificateValid: boolean | null;
+};
+
+export type CadesVerifyReport = {
+  /** True when `VerifyCades` succeeded and no signer reported an invalid signature or certificate. */
+  valid: boolean;
+  detached: boolean;
+  signers: CadesSignerReport[];
+  error: { code: CadesPluginErrorCode; message: string } | null;
+};
+
+async function readOptional<T>(read: () => Promise<T>): Promise<T | null> {
+  try {
+    const value = await read();
+    return value ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function readCount(read: () => Promise<{ Count: Promise<number> }>): Promise<number> {
+  return (await readOptional(async () => (await read()).Count)) ?? 0;
+}
+
+/**
+ * Reads one signer of a decoded `CadesSignedData`; unreadable properties become `null`.
+ */
+export async function readSignerReport(signer: CadesSigner, verifyChain: boolean): Promise<CadesSignerReport> {
+  const certificate = await readOptional(() => signer.Certificate);
+  const signingTime = await readOptional(() => signer.SigningTime);
+  const timestampTime = await readOptional(() => signer.SignatureTimeStampTime);
+  const signatureValid = await readOptional(async () => Boolean(await (await signer.SignatureStatus).IsValid));
+
+  const revocationData =
+    (await readCount(() => signer.CRLs)) + (await readCount(() => signer.OCSPResponses));
+  const signatureType: CadesSignatureType =
+    timestampTime === null ? 'CAdES-BES' : revocationData > 0 ? 'CAdES-XLT1' : 'CAdES-T';
+
+  const certificateValid =
+    verifyChain && certificate
+      ? await readOptional(async () => Boolean(await (await certificate.IsValid()).Result))
+      : null;
+
+  return {
+    certificate: certificate ? await readOptional(() => readCertificateInfo(certificate)) : null,
+    signingTime: signingTime === null ? null : toIsoDate(signingTime),
+    signatureType,
+    timestamp: timestampTime === null ? null : { time: toIsoDate(timestampTime) },
+    signatureValid,
+    certificateValid,
+  };
+}
+
+/**
+ * Verifies a CAdES signature with `CadesSignedData.VerifyCades` and reports every signer.
+ * Verification failures are reported in the result (`valid: false`, `error`) instead of being thrown;
+ * only invalid input rejects.
+ */
+export async function verifyCades(
+  plugin: CadesPluginObjectFactory,
+  signature: string,
+  options?: VerifyCadesOptions,
+): Promise<CadesVerifyReport> {
+  const opts = options ?? {};
+  const message = stripBase64LineBreaks(signature).trim();
+  if (!message) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'signature must be a non-empty base64 string');
+  }
+
+  const detached = opts.detachedContent !== undefined;
+  const verifyChain = opts.verifyChain ?? true;
+  const content = detached ? await toCadesContent(opts.detachedContent!, opts.encoding) : null;
+
+  try {
+    const signedData = await plugin.CreateObjectAsync('CAdESCOM.CadesSignedData');
+    if (content) {
+      await signedData.propset_ContentEncoding(content.contentEncoding);
+      await signedData.propset_Content(content.content);
+    }
+
+    let error: CadesVerifyReport['error'] = null;
+    try {
+      await signedData.VerifyCades(message, CADESCOM_CADES_TYPE.BES, detached);
+    } catch (e) {
+      error = describeOperationError(plugin, e, 'VERIFY_FAILED');
+    }
+
+    // Signers are usually readable even when verification failed (the message is decoded first).
+    const signers: CadesSignerReport[] = [];
+    const collection = await readOptional(() => signedData.Signers);
+    const count = collection ? ((await readOptional(() => collection.Count)) ?? 0) : 0;
+    for (let i = 1; i <= count; i++) {
+      const signer = await readOptional(() => collection!.Item(i));
+      if (signer) signers.push(await readSignerReport(signer, verifyChain));
+    }
+
+    const valid =
+      error === null &&
+      signers.every((s) => s.signatureValid !== false && s.certificateValid !== false);
+
+    return { valid, detached, signers, error };
+  } catch (e) {
+    return {
+      valid: false,
+      detached,
+      signers: [],
+      error:
+        e instanceof CadesPluginError
+          ? { code: e.code, message: e.message }
+          : describeOperationError(plugin, e, 'VERIFY_FAILED'),
+    };
+  }
+}
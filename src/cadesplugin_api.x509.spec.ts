@@ -0,0 +1,151 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+import type { CadesCertificate } from './cadesplugin_api.cadescom';
+import { bytesToBase64, sha1Hex } from './cadesplugin_api.utils';
+import { parseCertificate, parsePluginCertificate } from './cadesplugin_api.x509';
+
+// Tiny DER encoder, enough to build a certificate shaped like the ones issued by Russian CAs.
+function tlv(tag: number, content: Uint8Array): Uint8Array {
+  const length =
+    content.length < 0x80
+      ? [content.length]
+      : content.length < 0x100
+        ? [0x81, content.length]
+        : [0x82, content.length >> 8, content.length & 0xff];
+  return new Uint8Array([tag, ...length, ...content]);
+}
+const concat = (...parts: Uint8Array[]) => new Uint8Array(parts.flatMap((p) => [...p]));
+const seq = (...parts: Uint8Array[]) => tlv(0x30, concat(...parts));
+const set = (...parts: Uint8Array[]) => tlv(0x31, concat(...parts));
+const utf8 = (s: string) => tlv(0x0c, new TextEncoder().encode(s));
+const numeric = (s: string) => tlv(0x12, new TextEncoder().encode(s));
+const printable = (s: string) => tlv(0x13, new TextEncoder().encode(s));
+const octets = (content: Uint8Array) => tlv(0x04, content);
+function oid(value: string): Uint8Array {
+  const [a, b, ...rest] = value.split('.').map(Number);
+  const bytes = [a! * 40 + b!];
+  for (const n of rest) {
+    const chunk = [n & 0x7f];
+    for (let v = n >> 7; v > 0; v >>= 7) chunk.unshift((v & 0x7f) | 0x80);
+    bytes.push(...chunk);
+  }
+  return tlv(0x06, new Uint8Array(bytes));
+}
+const rdn = (type: string, value: Uint8Array) => set(seq(oid(type), value));
+const ext = (type: string, value: Uint8Array, critical = false) =>
+  seq(oid(type), ...(critical ? [tlv(0x01, new Uint8Array([0xff]))] : []), octets(value));
+
+function buildCertificate(): Uint8Array {
+  const issuer = seq(rdn('2.5.4.3', utf8('Тестовый УЦ')), rdn('1.2.643.100.4', numeric('7700000000')));
+  const subject = seq(
+    rdn('2.5.4.3', utf8('ООО "Ромашка", отдел')),
+    rdn('2.5.4.4', utf8('Иванов')),
+    rdn('2.5.4.42', utf8('Иван Иванович')),
+    rdn('2.5.4.12', utf8('Генеральный директор')),
+    rdn('2.5.4.10', utf8('ООО "Ромашка"')),
+    rdn('2.5.4.6', printable('RU')),
+    rdn('1.2.643.3.131.1.1', numeric('771234567890')),
+    rdn('1.2.643.100.4', numeric('7712345678')),
+    rdn('1.2.643.100.1', numeric('1027700000000')),
+    rdn('1.2.643.100.3', numeric('12345678901')),
+    rdn('1.3.6.1.4.1.99999.1', utf8('custom')),
+  );
+  const spki = seq(
+    seq(oid('1.2.643.7.1.1.1.1'), seq(oid('1.2.643.2.2.35.1'), oid('1.2.643.7.1.1.2.2'))),
+    tlv(0x03, new Uint8Array([0x00, 0x04, 0x02, 0xaa, 0xbb])),
+  );
+  const extensions = tlv(
+    0xa3,
+    seq(
+      // digitalSignature, nonRepudiation, keyEncipherment, dataEncipherment
+      ext('2.5.29.15', tlv(0x03, new Uint8Array([0x04, 0xf0])), true),
+      ext('2.5.29.37', seq(oid('1.3.6.1.5.5.7.3.2'), oid('1.3.6.1.5.5.7.3.4'))),
+      ext('2.5.29.32', seq(seq(oid('1.2.643.100.113.1')), seq(oid('1.2.643.100.113.2')))),
+      ext('1.2.643.100.111', utf8('СКЗИ "КриптоПро CSP" (версия 5.0)')),
+    ),
+  );
+  const tbs = seq(
+    tlv(0xa0, tlv(0x02, new Uint8Array([0x02]))),
+    tlv(0x02, new Uint8Array([0x00, 0x8a, 0x01, 0x02])),
+    seq(oid('1.2.643.7.1.1.3.2')),
+    issuer,
+    seq(tlv(0x17, new TextEncoder().encode('240115090000Z')), tlv(0x18, new TextEncoder().encode('20250415090000Z'))),
+    subject,
+    spki,
+    extensions,
+  );
+  return seq(tbs, seq(oid('1.2.643.7.1.1.3.2')), tlv(0x03, new Uint8Array([0x00, 0x01, 0x02])));
+}
+
+describe('CryptoPro X.509 parser', () => {
+  const der = buildCertificate();
+  const expectedThumbprint = createHash('sha1').update(der).digest('hex').toUpperCase();
+
+  it('sha1Hex: matches node crypto', () => {
+    expect(sha1Hex(new Uint8Array())).toBe('DA39A3EE5E6B4B0D3255BFEF95601890AFD80709');
+    const large = new Uint8Array(1000).map((_, i) => i & 0xff);
+    expect(sha1Hex(large)).toBe(createHash('sha1').update(large).digest('hex').toUpperCase());
+  });
+
+  it('parses a GOST certificate with Russian name attributes and extensions', () => {
+    const cert = parseCertificate(der);
+
+    expect(cert).toMatchObject({
+      version: 3,
+      serialNumber: '8A0102',
+      signatureAlgorithmOid: '1.2.643.7.1.1.3.2',
+      validFrom: '2024-01-15T09:00:00.000Z',
+      validTo: '2025-04-15T09:00:00.000Z',
+      publicKey: {
+        algorithmOid: '1.2.643.7.1.1.1.1',
+        algorithmName: 'GOST R 34.10-2012 256',
+        parameterOids: ['1.2.643.2.2.35.1', '1.2.643.7.1.1.2.2'],
+      },
+      keyUsage: ['digitalSignature', 'nonRepudiation', 'keyEncipherment', 'dataEncipherment'],
+      extendedKeyUsageOids: ['1.3.6.1.5.5.7.3.2', '1.3.6.1.5.5.7.3.4'],
+      policyOids: ['1.2.643.100.113.1', '1.2.643.100.113.2'],
+      subjectSignTool: 'СКЗИ "КриптоПро CSP" (версия 5.0)',
+      thumbprint: expectedThumbprint,
+    });
+    expect(cert.extensions[0]).toEqual({ oid: '2.5.29.15', critical: true });
+    expect(cert.issuer.fields).toEqual({ commonName: 'Тестовый УЦ', innle: '7700000000' });
+    expect(cert.subject.fields).toEqual({
+      commonName: 'ООО "Ромашка", отдел',
+      surname: 'Иванов',
+      givenName: 'Иван Иванович',
+      title: 'Генеральный директор',
+      organization: 'ООО "Ромашка"',
+      country: 'RU',
+      inn: '771234567890',
+      innle: '7712345678',
+      ogrn: '1027700000000',
+      snils: '12345678901',
+    });
+    expect(cert.subject.attributes.at(-1)).toEqual({ oid: '1.3.6.1.4.1.99999.1', shortName: null, value: 'custom' });
+  });
+
+  it('accepts PEM, base64 with CRLF and ArrayBuffer input', () => {
+    const base64 = bytesToBase64(der);
+    const wrapped = base64.replace(/(.{64})/g, '$1\r\n');
+    const pem = `-----BEGIN CERTIFICATE-----\n${wrapped}\n-----END CERTIFICATE-----\n`;
+
+    expect(parseCertificate(pem).thumbprint).toBe(expectedThumbprint);
+    expect(parseCertificate(wrapped).thumbprint).toBe(expectedThumbprint);
+    expect(parseCertificate(der.slice().buffer).thumbprint).toBe(expectedThumbprint);
+  });
+
+  it('parsePluginCertificate: parses Certificate.Export output', async () => {
+    const certificate = { Export: vi.fn(async () => bytesToBase64(der).replace(/(.{64})/g, '$1\r\n')) };
+    const cert = await parsePluginCertificate(certificate as unknown as CadesCertificate);
+    expect(certificate.Export).toHaveBeenCalledWith(0);
+    expect(cert.subject.fields.snils).toBe('12345678901');
+  });
+
+  it('rejects malformed input with CERTIFICATE_PARSE_FAILED', () => {
+    expect(() => parseCertificate('')).toThrow(expect.objectContaining({ code: 'CERTIFICATE_PARSE_FAILED' }));
+    expect(() => parseCertificate(der.subarray(0, der.length - 1))).toThrow(
+      expect.objectContaining({ code: 'CERTIFICATE_PARSE_FAILED' }),
+    );
+    expect(() => parseCertificate(concat(der, new Uint8Array([0])))).toThrow(/Trailing data/);
+  });
+});
@@ -0,0 +1,274 @@
+import {
+  ASN1_TAG,
+  Asn1Error,
+  asn1Children,
+  asn1Encoded,
+  asn1Inner,
+  expectTag,
+  readAsn1,
+  readBitFlags,
+  readBoolean,
+  readIntegerHex,
+  readOid,
+  readSmallInteger,
+  readString,
+  readTime,
+  type Asn1Node,
+} from './cadesplugin_api.asn1';
+import { CADESCOM_ENCODING_TYPE, type CadesCertificate } from './cadesplugin_api.cadescom';
+import { CadesPluginError } from './cadesplugin_api.types';
+import {
+  DISTINGUISHED_NAME_ATTRIBUTES,
+  base64ToBytes,
+  pemToBase64,
+  sha1Hex,
+  type CadesDistinguishedName,
+} from './cadesplugin_api.utils';
+
+/**
+ * DER bytes, or a PEM / base64 string (line breaks allowed, as returned by `Certificate.Export`).
+ */
+export type CadesCertificateInput = string | Uint8Array | ArrayBuffer;
+
+export type CadesKeyUsageName =
+  | 'digitalSignature'
+  | 'nonRepudiation'
+  | 'keyEncipherment'
+  | 'dataEncipherment'
+  | 'keyAgreement'
+  | 'keyCertSign'
+  | 'cRLSign'
+  | 'encipherOnly'
+  | 'decipherOnly';
+
+export type CadesNameAttribute = {
+  oid: string;
+  /** Short name such as `CN` or `INN`, `null` for attributes this library does not know. */
+  shortName: string | null;
+  value: string;
+};
+
+export type CadesParsedName = {
+  /** Attributes in certificate order. */
+  attributes: CadesNameAttribute[];
+  fields: CadesDistinguishedName;
+};
+
+export type CadesParsedPublicKey = {
+  algorithmOid: string;
+  /** Human-readable GOST algorithm name, `null` for non-GOST keys. */
+  algorithmName: string | null;
+  /** OIDs from the GOST key parameters (public key parameter set, digest, cipher). */
+  parameterOids: string[];
+};
+
+export type CadesParsedCertificate = {
+  version: number;
+  /** Upper-case hex, as shown by `Certificate.SerialNumber`. */
+  serialNumber: string;
+  signatureAlgorithmOid: string;
+  issuer: CadesParsedName;
+  subject: CadesParsedName;
+  validFrom: string;
+  validTo: string;
+  publicKey: CadesParsedPublicKey;
+  /** `null` when the key usage extension is absent. */
+  keyUsage: CadesKeyUsageName[] | null;
+  extendedKeyUsageOids: string[];
+  policyOids: string[];
+  /** Subject sign tool (1.2.643.100.111), i.e. the CIPF the key was created with. */
+  subjectSignTool: string | null;
+  extensions: Array<{ oid: string; critical: boolean }>;
+  /** SHA-1 of the DER encoding, upper-case hex (same as `Certificate.Thumbprint`). */
+  thumbprint: string;
+};
+
+export const GOST_PUBLIC_KEY_ALGORITHMS: Readonly<Record<string, string>> = {
+  '1.2.643.7.1.1.1.1': 'GOST R 34.10-2012 256',
+  '1.2.643.7.1.1.1.2': 'GOST R 34.10-2012 512',
+  '1.2.643.2.2.19': 'GOST R 34.10-2001',
+};
+
+const KEY_USAGE_BITS: readonly CadesKeyUsageName[] = [
+  'digitalSignature',
+  'nonRepudiation',
+  'keyEncipherment',
+  'dataEncipherment',
+  'keyAgreement',
+  'keyCertSign',
+  'cRLSign',
+  'encipherOnly',
+  'decipherOnly',
+];
+
+const EXTENSION_OID = {
+  KEY_USAGE: '2.5.29.15',
+  EXTENDED_KEY_USAGE: '2.5.29.37',
+  CERTIFICATE_POLICIES: '2.5.29.32',
+  SUBJECT_SIGN_TOOL: '1.2.643.100.111',
+} as const;
+
+const ATTRIBUTE_BY_OID = new Map(DISTINGUISHED_NAME_ATTRIBUTES.map((spec) => [spec.oid, spec]));
+
+function toDerBytes(input: CadesCertificateInput): Uint8Array {
+  if (input instanceof Uint8Array) return input;
+  if (input instanceof ArrayBuffer) return new Uint8Array(input);
+  if (typeof input === 'string') {
+    const base64 = pemToBase64(input);
+    if (!base64) throw new Asn1Error('Certificate is empty');
+    try {
+      return base64ToBytes(base64);
+    } catch {
+      throw new Asn1Error('Certificate is not valid base64/PEM');
+    }
+  }
+  throw new Asn1Error('Certificate must be a string, Uint8Array or ArrayBuffer');
+}
+
+function isContextTag(node: Asn1Node | undefined, tagNumber: number): boolean {
+  return node?.tagClass === 'context' && node.tagNumber === tagNumber;
+}
+
+function parseName(node: Asn1Node): CadesParsedName {
+  const attributes: CadesNameAttribute[] = [];
+  const fields: CadesDistinguishedName = {};
+
+  for (const rdn of asn1Children(expectTag(node, ASN1_TAG.SEQUENCE, 'Name'))) {
+    for (const atv of asn1Children(expectTag(rdn, ASN1_TAG.SET, 'RelativeDistinguishedName'))) {
+      const [type, value] = asn1Children(expectTag(atv, ASN1_TAG.SEQUENCE, 'AttributeTypeAndValue'));
+      const oid = readOid(type!);
+      if (!value) throw new Asn1Error(`Attribute ${oid} has no value`);
+      const text = readString(value);
+      const spec = ATTRIBUTE_BY_OID.get(oid);
+      attributes.push({ oid, shortName: spec?.shortName ?? null, value: text });
+      // The first occurrence wins (e.g. several OU values).
+      if (spec && fields[spec.field] === undefined) fields[spec.field] = text;
+    }
+  }
+
+  return { attributes, fields };
+}
+
+function parsePublicKey(node: Asn1Node): CadesParsedPublicKey {
+  const [algorithm] = asn1Children(expectTag(node, ASN1_TAG.SEQUENCE, 'SubjectPublicKeyInfo'));
+  const [oidNode, params] = asn1Children(expectTag(algorithm, ASN1_TAG.SEQUENCE, 'AlgorithmIdentifier'));
+  const algorithmOid = readOid(oidNode!);
+
+  const parameterOids =
+    params?.tag === ASN1_TAG.SEQUENCE
+      ? asn1Children(params)
+          .filter((child) => child.tag === ASN1_TAG.OID)
+          .map(readOid)
+      : [];
+
+  return {
+    algorithmOid,
+    algorithmName: GOST_PUBLIC_KEY_ALGORITHMS[algorithmOid] ?? null,
+    parameterOids,
+  };
+}
+
+type ParsedExtensions = Pick<
+  CadesParsedCertificate,
+  'keyUsage' | 'extendedKeyUsageOids' | 'policyOids' | 'subjectSignTool' | 'extensions'
+>;
+
+function parseExtensions(node: Asn1Node | undefined): ParsedExtensions {
+  const result: ParsedExtensions = {
+    keyUsage: null,
+    extendedKeyUsageOids: [],
+    policyOids: [],
+    subjectSignTool: null,
+    extensions: [],
+  };
+  if (!node) return result;
+
+  const [sequence] = asn1Children(node);
+  for (const extension of asn1Children(expectTag(sequence, ASN1_TAG.SEQUENCE, 'Extensions'))) {
+    const parts = asn1Children(expectTag(extension, ASN1_TAG.SEQUENCE, 'Extension'));
+    const oid = readOid(parts[0]!);
+    const critical = parts[1]?.tag === ASN1_TAG.BOOLEAN ? readBoolean(parts[1]) : false;
+    const value = expectTag(parts[parts.length - 1], ASN1_TAG.OCTET_STRING, 'extnValue');
+    result.extensions.push({ oid, critical });
+
+    switch (oid) {
+      case EXTENSION_OID.KEY_USAGE:
+        result.keyUsage = readBitFlags(asn1Inner(value))
+          .map((bit) => KEY_USAGE_BITS[bit])
+          .filter((name): name is CadesKeyUsageName => name !== undefined);
+        break;
+      case EXTENSION_OID.EXTENDED_KEY_USAGE:
+        result.extendedKeyUsageOids = asn1Children(asn1Inner(value)).map(readOid);
+        break;
+      case EXTENSION_OID.CERTIFICATE_POLICIES:
+        result.policyOids = asn1Children(asn1Inner(value)).map((policy) => readOid(asn1Children(policy)[0]!));
+        break;
+      case EXTENSION_OID.SUBJECT_SIGN_TOOL:
+        result.subjectSignTool = readString(asn1Inner(value));
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parses an X.509 certificate (DER, PEM or base64) without the plugin. Understands the attributes and
+ * extensions of Russian qualified certificates (INN, OGRN, SNILS, subject sign tool, GOST keys).
+ * Throws `CERTIFICATE_PARSE_FAILED` for malformed input.
+ */
+export function parseCertificate(input: CadesCertificateInput): CadesParsedCertificate {
+  try {
+    const der = toDerBytes(input);
+    const certificate = expectTag(readAsn1(der), ASN1_TAG.SEQUENCE, 'Certificate');
+    if (certificate.end !== der.length) throw new Asn1Error('Trailing data after the certificate');
+
+    const [tbs, signatureAlgorithm] = asn1Children(certificate);
+    const fields = asn1Children(expectTag(tbs, ASN1_TAG.SEQUENCE, 'TBSCertificate'));
+
+    let index = 0;
+    let version = 1;
+    if (isContextTag(fields[0], 0)) {
+      version = readSmallInteger(asn1Children(fields[0]!)[0]!) + 1;
+      index++;
+    }
+
+    const serialNumber = readIntegerHex(fields[index++]!);
+    index++; // TBSCertificate.signature duplicates the outer signatureAlgorithm
+    const issuer = parseName(fields[index++]!);
+    const [notBefore, notAfter] = asn1Children(expectTag(fields[index++], ASN1_TAG.SEQUENCE, 'Validity'));
+    const subject = parseName(fields[index++]!);
+    const publicKey = parsePublicKey(fields[index++]!);
+    const extensions = parseExtensions(fields.slice(index).find((node) => isContextTag(node, 3)));
+
+    const [signatureOid] = asn1Children(expectTag(signatureAlgorithm, ASN1_TAG.SEQUENCE, 'AlgorithmIdentifier'));
+
+    return {
+      version,
+      serialNumber,
+      signatureAlgorithmOid: readOid(signatureOid!),
+      issuer,
+      subject,
+      validFrom: readTime(notBefore!),
+      validTo: readTime(notAfter!),
+      publicKey,
+      ...extensions,
+      thumbprint: sha1Hex(asn1Encoded(certificate)),
+    };
+  } catch (e) {
+    throw new CadesPluginError(
+      'CERTIFICATE_PARSE_FAILED',
+      `Failed to parse certificate: ${e instanceof Error ? e.message : String(e)}`,
+      undefined,
+      { cause: e },
+    );
+  }
+}
+
+/**
+ * Exports a plugin certificate and parses it locally: one `Export` call instead of a round-trip per property.
+ */
+export async function parsePluginCertificate(certificate: CadesCertificate): Promise<CadesParsedCertificate> {
+  return parseCertificate(await certificate.Export(CADESCOM_ENCODING_TYPE.BASE64));
+}
+
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CADESCOM_XML_ALGORITHM_URI } from './cadesplugin_api.cadescom';
+import { createFakeCadesPlugin } from './cadesplugin_api.testing';
+import { getXmlAlgorithmsForKey, signXml, verifyXml } from './cadesplugin_api.xml';
+
+// The fake plug-in has no SignedXML; stores, certificates and signers are its own.
+function fakePlugin(keyAlgorithmOid: string) {
+  const fake = createFakeCadesPlugin({
+    certificates: [{ thumbprint: 'AA', subjectName: 'CN=Signer', keyAlgorithmOid }],
+  });
+  const signedXml = {
+    propset_Content: vi.fn(async () => undefined),
+    propset_SignatureType: vi.fn(async () => undefined),
+    propset_SignatureMethod: vi.fn(async () => undefined),
+    propset_DigestMethod: vi.fn(async () => undefined),
+    Sign: vi.fn(async () => '<doc><Signature/></doc>'),
+    Verify: vi.fn(async () => undefined),
+    Signers: Promise.resolve({ Count: Promise.resolve(0) }),
+  };
+  fake.override('CAdESCOM.SignedXML', () => signedXml);
+  return { plugin: Object.assign(fake, { ReleasePluginObjects: vi.fn() }), signedXml };
+}
+
+describe('CryptoPro XML signatures', () => {
+  it('getXmlAlgorithmsForKey: maps GOST key OIDs to XMLDSig URIs', () => {
+    expect(getXmlAlgorithmsForKey('1.2.643.7.1.1.1.2')).toEqual({
+      signatureMethod: CADESCOM_XML_ALGORITHM_URI.GOST_3410_2012_512,
+      digestMethod: CADESCOM_XML_ALGORITHM_URI.GOST_3411_2012_512,
+    });
+    expect(getXmlAlgorithmsForKey('1.2.840.113549.1.1.1')).toBe(null);
+  });
+
+  it('signXml: signs enveloped XAdES-BES with GOST 2012-256 URIs', async () => {
+    const { plugin, signedXml } = fakePlugin('1.2.643.7.1.1.1.1');
+
+    const result = await signXml(plugin, '<doc/>', { thumbprint: 'AA', xades: true });
+
+    expect(result).toBe('<doc><Signature/></doc>');
+    expect(signedXml.propset_SignatureType).toHaveBeenCalledWith(0x20);
+    expect(signedXml.propset_SignatureMethod).toHaveBeenCalledWith(CADESCOM_XML_ALGORITHM_URI.GOST_3410_2012_256);
+    expect(signedXml.propset_DigestMethod).toHaveBeenCalledWith(CADESCOM_XML_ALGORITHM_URI.GOST_3411_2012_256);
+    // No CPAttribute: XMLDSig has no signing-time attribute.
+    expect(plugin.created).not.toContain('CAdESCOM.CPAttribute');
+    expect(plugin.ReleasePluginObjects).not.toHaveBeenCalled();
+  });
+
+  it('signXml: rejects keys without GOST XML algorithms', async () => {
+    const { plugin } = fakePlugin('1.2.840.113549.1.1.1');
+    await expect(signXml(plugin, '<doc/>', { thumbprint: 'AA', type: 'enveloping' })).rejects.toMatchObject({
+      code: 'SIGN_FAILED',
+      details: { keyAlgorithmOid: '1.2.840.113549.1.1.1' },
+    });
+  });
+
+  it('verifyXml: reports verification failures', async () => {
+    const { plugin, signedXml } = fakePlugin('1.2.643.7.1.1.1.1');
+    expect(await verifyXml(plugin, '<doc/>')).toEqual({ valid: true, signers: [], error: null });
+
+    signedXml.Verify.mockRejectedValueOnce(new Error('Signature is invalid'));
+    expect(await verifyXml(plugin, '<doc/>')).toEqual({
+      valid: false,
+      signers: [],
+      error: { code: 'VERIFY_FAILED', message: 'Signature is invalid' },
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  CADESCOM_XADES_TYPE,
+  CADESCOM_XML_ALGORITHM_URI,
+  CADESCOM_XML_SIGNATURE_TYPE,
+  type CadesCertificate,
+} from './cadesplugin_api.cadescom';
+import {
+  readCertificateInfo,
+  readKeyAlgorithmOid,
+  type CadesCertificateInfo,
+  type FindCertificateOptions,
+} from './cadesplugin_api.certificates';
+import { createOperationError, describeOperationError } from './cadesplugin_api.hresult';
+import type { CadesOperationOptions } from './cadesplugin_api.queue';
+import { createSigner } from './cadesplugin_api.sign';
+import {
+  CadesPluginError,
+  type CadesPluginErrorCode,
+  type CadesPluginObjectFactory,
+} from './cadesplugin_api.types';
+
+export type CadesXmlSignatureKind = 'enveloped' | 'enveloping' | 'template';
+
+export type SignXmlOptions = FindCertificateOptions & CadesOperationOptions & {
+  /**
+   * SHA-1 thumbprint of the signing certificate.
+   */
+  thumbprint: string;
+
+  /**
+   * Signature placement (defaults to `enveloped`). `template` signs a document that already contains
+   * a `<Signature>` template.
+   */
+  type?: CadesXmlSignatureKind;
+
+  /**
+   * Produce XAdES-BES instead of plain XMLDSig.
+   */
+  xades?: boolean;
+
+  /**
+   * XPath of the node to put the signature into (enveloped signatures only).
+   */
+  xpath?: string;
+};
+
+export type VerifyXmlOptions = CadesOperationOptions & {
+  /**
+   * XPath of the signature node when the document contains several signatures.
+   */
+  xpath?: string;
+};
+
+export type CadesXmlVerifyReport = {
+  valid: boolean;
+  signers: Array<{ certificate: CadesCertificateInfo | null }>;
+  error: { code: CadesPluginErrorCode; message: string } | null;
+};
+
+export type CadesXmlAlgorithms = {
+  signatureMethod: string;
+  digestMethod: string;
+};
+
+const SIGNATURE_TYPE_BY_KIND: Record<CadesXmlSignatureKind, number> = {
+  enveloped: CADESCOM_XML_SIGNATURE_TYPE.ENVELOPED,
+  enveloping: CADESCOM_XML_SIGNATURE_TYPE.ENVELOPING,
+  template: CADESCOM_XML_SIGNATURE_TYPE.TEMPLATE,
+};
+
+const XML_ALGORITHMS_BY_KEY_OID: Record<string, CadesXmlAlgorithms> = {
+  // GOST R 34.10-2012 256 bit
+  '1.2.643.7.1.1.1.1': {
+    signatureMethod: CADESCOM_XML_ALGORITHM_URI.GOST_3410_2012_256,
+    digestMethod: CADESCOM_XML_ALGORITHM_URI.GOST_3411_2012_256,
+  },
+  // GOST R 34.10-2012 512 bit
+  '1.2.643.7.1.1.1.2': {
+    signatureMethod: CADESCOM_XML_ALGORITHM_URI.GOST_3410_2012_512,
+    digestMethod: CADESCOM_XML_ALGORITHM_URI.GOST_3411_2012_512,
+  },
+  // GOST R 34.10-2001
+  '1.2.643.2.2.19': {
+    signatureMethod: CADESCOM_XML_ALGORITHM_URI.GOST_3410_2001,
+    digestMethod: CADESCOM_XML_ALGORITHM_URI.GOST_3411_94,
+  },
+};
+
+/**
+ * Returns the XMLDSig signature/digest URIs matching a GOST public key algorithm OID, or `null` if unsupported.
+ */
+export function getXmlAlgorithmsForKey(keyAlgorithmOid: string): CadesXmlAlgorithms | null {
+  return XML_ALGORITHMS_BY_KEY_OID[String(keyAlgorithmOid ?? '').trim()] ?? null;
+}
+
+/**
+ * Signs an XML document with `CAdESCOM.SignedXML` (XMLDSig or XAdES-BES) using GOST algorithms that
+ * match the key of the selected certificate.
+ */
+export async function signXml(
+  plugin: CadesPluginObjectFactory,
+  xml: string,
+  options: SignXmlOptions,
+): Promise<string> {
+  if (typeof xml !== 'string' || !xml.trim()) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'xml must be a non-empty string');
+  }
+  if (!options || typeof options.thumbprint !== 'string' || !options.thumbprint.trim()) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'thumbprint is required');
+  }
+  const kind = options.type ?? 'enveloped';
+  const baseType = SIGNATURE_TYPE_BY_KIND[kind];
+  if (baseType === undefined) {
+    throw new CadesPluginError('INVALID_OPTIONS', `Unsupported XML signature type: ${String(kind)}`, { type: kind });
+  }
+  const signatureType = baseType | (options.xades ? CADESCOM_XADES_TYPE.XADES_BES : CADESCOM_XADES_TYPE.XMLDSIG);
+
+  try {
+    // XMLDSig has no CMS signing-time attribute.
+    const signer = await createSigner(plugin, { ...options, signingTime: false });
+    const keyAlgorithmOid = await readKeyAlgorithmOid(await signer.Certificate);
+    const algorithms = getXmlAlgorithmsForKey(keyAlgorithmOid);
+    if (!algorithms) {
+      throw new CadesPluginError(
+        'SIGN_FAILED',
+        `Certificate key algorithm is not supported for XML signatures: ${keyAlgorithmOid}`,
+        { thumbprint: options.thumbprint, keyAlgorithmOid },
+      );
+    }
+
+    const signedXml = await plugin.CreateObjectAsync('CAdESCOM.SignedXML');
+    await signedXml.propset_Content(xml);
+    await signedXml.propset_SignatureType(signatureType);
+    await signedXml.propset_SignatureMethod(algorithms.signatureMethod);
+    await signedXml.propset_DigestMethod(algorithms.digestMethod);
+
+    return options.xpath ? await signedXml.Sign(signer, options.xpath) : await signedXml.Sign(signer);
+  } catch (e) {
+    if (e instanceof CadesPluginError) throw e;
+    throw createOperationError(
+      plugin,
+      e,
+      'SIGN_FAILED',
+      'CryptoPro XML signing failed',
+      { thumbprint: options.thumbprint, type: kind, xades: Boolean(options.xades) },
+    );
+  }
+}
+
+/**
+ * Verifies an XML signature with `CAdESCOM.SignedXML.Verify`. Like `verifyCades`, invalid signatures are
+ * reported in the result instead of being thrown.
+ */
+export async function verifyXml(
+  plugin: CadesPluginObjectFactory,
+  signedXml: string,
+  options?: VerifyXmlOptions,
+): Promise<CadesXmlVerifyReport> {
+  if (typeof signedXml !== 'string' || !signedXml.trim()) {
+    throw new CadesPluginError('INVALID_OPTIONS', 'signedXml must be a non-empty string');
+  }
+
+  try {
+    const xmlObject = await plugin.CreateObjectAsync('CAdESCOM.SignedXML');
+
+    let error: CadesXmlVerifyReport['error'] = null;
+    try {
+      if (options?.xpath) await xmlObject.Verify(signedXml, options.xpath);
+      else await xmlObject.Verify(signedXml);
+    } catch (e) {
+      error = describeOperationError(plugin, e, 'VERIFY_FAILED');
+    }
+
+    const signers: CadesXmlVerifyReport['signers'] = [];
+    try {
+      const collection = await xmlObject.Signers;
+      const count = await collection.Count;
+      for (let i = 1; i <= count; i++) {
+        const signer = await collection.Item(i);
+        let certificate: CadesCertificateInfo | null = null;
+        try {
+          certificate = await readCertificateInfo(await signer.Certificate);
+        } catch {
+          // keep null
+        }
+        signers.push({ certificate });
+      }
+    } catch {
+      // Signers are not available for documents that failed to parse.
+    }
+
+    return { valid: error === null, signers, error };
+  } catch (e) {
+    return {
+      valid: false,
+      signers: [],
+      error:
+        e instanceof CadesPluginError
+          ? { code: e.code, message: e.message }
+          : describeOperationError(plugin, e, 'VERIFY_FAILED'),
+    };
+  }
+}
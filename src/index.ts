@@ -1,18 +1,192 @@
-import { installCadesPlugin } from './cadesplugin_api.install';
-import type { CadesPluginClient, CadesPluginInstallOptions } from './cadesplugin_api.types';
+import { abortablePlugin, withAbortSignal } from './cadesplugin_api.abort';
+import { signBatch } from './cadesplugin_api.batch';
+import { listCertificates } from './cadesplugin_api.certificates';
+import { coSignCades, listSigners } from './cadesplugin_api.cosign';
+import { decrypt, encrypt } from './cadesplugin_api.envelope';
+import { getExtensionInfo } from './cadesplugin_api.extension';
+import { createFluentPlugin } from './cadesplugin_api.fluent';
+import { hash, signHash, type CadesHashAlgorithmName } from './cadesplugin_api.hash';
+import { disposeCadesPlugin, installCadesPlugin } from './cadesplugin_api.install';
+import { createOperationQueue, type CadesOperationOptions } from './cadesplugin_api.queue';
+import { createObjectTracker } from './cadesplugin_api.scope';
+import { signCades } from './cadesplugin_api.sign';
+import { enhanceSignature, resolveTsaHashAlgorithm, resolveTsaUrls, withTsaFallback } from './cadesplugin_api.tsp';
+import { verifyCades } from './cadesplugin_api.verify';
+import { signXml, verifyXml } from './cadesplugin_api.xml';
+import type {
+  CadesPluginClient,
+  CadesPluginClientOptions,
+  CadesPluginGlobal,
+  CadesPluginLifecycleListener,
+  CadesPluginObjectFactory,
+  CadesPluginState,
+} from './cadesplugin_api.types';
 import { CRYPTOPRO_EXTENSION_IDS, CRYPTOPRO_EXTENSION_ORIGINS } from './cadesplugin_api.utils';
 
-export { installCadesPlugin } from './cadesplugin_api.install';
-export { CadesPluginError, isCadesPluginError } from './cadesplugin_api.types';
-export { CRYPTOPRO_EXTENSION_IDS, CRYPTOPRO_EXTENSION_ORIGINS } from './cadesplugin_api.utils';
+export { disposeCadesPlugin, installCadesPlugin } from './cadesplugin_api.install';
+export {
+  CadesOperationError,
+  CadesPluginError,
+  isCadesOperationError,
+  isCadesPluginError,
+} from './cadesplugin_api.types';
+export type { CadesAbortOptions } from './cadesplugin_api.abort';
+export {
+  CRYPTOPRO_EXTENSION_IDS,
+  CRYPTOPRO_EXTENSION_ORIGINS,
+  DISTINGUISHED_NAME_ATTRIBUTES,
+  base64ToBytes,
+  bytesToBase64,
+  compareVersions,
+  findDistinguishedNameAttribute,
+  formatDistinguishedName,
+  isThumbprintLike,
+  isVersionAtLeast,
+  parseDistinguishedName,
+  parseVersion,
+  pemToBase64,
+} from './cadesplugin_api.utils';
+export type { CadesDistinguishedName, DistinguishedNameAttributeSpec } from './cadesplugin_api.utils';
+export {
+  CADESCOM_AUTHENTICATED_ATTRIBUTE,
+  CADESCOM_CADES_TYPE,
+  CADESCOM_CERT_INFO_TYPE,
+  CADESCOM_CERTIFICATE_FIND_TYPE,
+  CADESCOM_CERTIFICATE_INCLUDE_OPTION,
+  CADESCOM_CONTENT_ENCODING,
+  CADESCOM_DISPLAY_DATA,
+  CADESCOM_ENCODING_TYPE,
+  CADESCOM_ENCRYPTION_ALGORITHM,
+  CADESCOM_HASH_ALGORITHM,
+  CADESCOM_STORE_LOCATION,
+  CADESCOM_STORE_NAME,
+  CADESCOM_STORE_OPEN_MODE,
+  CADESCOM_XADES_TYPE,
+  CADESCOM_XML_ALGORITHM_URI,
+  CADESCOM_XML_SIGNATURE_TYPE,
+} from './cadesplugin_api.cadescom';
+export type * from './cadesplugin_api.cadescom';
+export { normalizeThumbprint } from './cadesplugin_api.certificates';
+export {
+  checkCryptoProCsp,
+  parseContentSecurityPolicy,
+  patchCryptoProCsp,
+  serializeContentSecurityPolicy,
+} from './cadesplugin_api.csp';
+export type {
+  CadesCspCheckOptions,
+  CadesCspCheckResult,
+  CadesCspDecisionReason,
+  CadesCspDirective,
+  CadesCspPolicy,
+  CadesCspPolicyDecision,
+  CadesCspUrlCheck,
+} from './cadesplugin_api.csp';
+export { formatCadesDiagnostics, runCadesDiagnostics } from './cadesplugin_api.diagnostics';
+export type { CadesDiagnosticsOptions, CadesDiagnosticsReport } from './cadesplugin_api.diagnostics';
+export type {
+  CadesCertificateInfo,
+  FindCertificateOptions,
+  ListCertificatesOptions,
+} from './cadesplugin_api.certificates';
+export type {
+  CadesDataInput,
+  CadesSignatureType,
+  CadesStringEncoding,
+  SignCadesOptions,
+} from './cadesplugin_api.sign';
+export type { CadesBatchSignProgress, CadesBatchSignResult, SignBatchOptions } from './cadesplugin_api.batch';
+export type { CoSignCadesOptions, ListSignersOptions } from './cadesplugin_api.cosign';
+export type { CadesTsaOptions, EnhanceSignatureOptions } from './cadesplugin_api.tsp';
+export type {
+  CadesDecryptResult,
+  CadesEncryptResult,
+  CadesRecipientInput,
+  DecryptOptions,
+  EncryptOptions,
+} from './cadesplugin_api.envelope';
+export {
+  CRYPTOPRO_INSTALL_URLS,
+  detectCryptoProExtension,
+  getExtensionInfo,
+  getExtensionInstallGuide,
+  getExtensionManifest,
+  queryCryptoProExtension,
+} from './cadesplugin_api.extension';
 export type {
+  CadesExtensionDetectOptions,
+  CadesExtensionDetection,
+  CadesExtensionInfo,
+  CadesExtensionInstallGuide,
+  CadesExtensionManifest,
+  CadesExtensionQuery,
+  CadesExtensionQueryOptions,
+} from './cadesplugin_api.extension';
+export {
+  createFluentPlugin,
+  flushPluginWrites,
+  unwrapPluginObject,
+  wrapPluginObject,
+} from './cadesplugin_api.fluent';
+export type {
+  CadesFluent,
+  CadesFluentArg,
+  CadesFluentPlugin,
+  CadesFluentPromise,
+} from './cadesplugin_api.fluent';
+export { CADES_HRESULT_CODES, parseCadesError, parseCadesHresult } from './cadesplugin_api.hresult';
+export type { CadesParsedError } from './cadesplugin_api.hresult';
+export type {
+  CadesHashAlgorithmName,
+  CadesHashInput,
+  CadesHashProgress,
+  CadesHashResult,
+  HashOptions,
+  SignHashOptions,
+} from './cadesplugin_api.hash';
+export { createOperationQueue } from './cadesplugin_api.queue';
+export type {
+  CadesOperationOptions,
+  CadesOperationQueue,
+  CadesOperationQueueOptions,
+} from './cadesplugin_api.queue';
+export type { CadesObjectCounters, CadesPluginScope } from './cadesplugin_api.scope';
+export type { CadesSignerReport, CadesVerifyReport, VerifyCadesOptions } from './cadesplugin_api.verify';
+export { GOST_PUBLIC_KEY_ALGORITHMS, parseCertificate, parsePluginCertificate } from './cadesplugin_api.x509';
+export type {
+  CadesCertificateInput,
+  CadesKeyUsageName,
+  CadesNameAttribute,
+  CadesParsedCertificate,
+  CadesParsedName,
+  CadesParsedPublicKey,
+} from './cadesplugin_api.x509';
+export { getXmlAlgorithmsForKey } from './cadesplugin_api.xml';
+export type {
+  CadesXmlAlgorithms,
+  CadesXmlSignatureKind,
+  CadesXmlVerifyReport,
+  SignXmlOptions,
+  VerifyXmlOptions,
+} from './cadesplugin_api.xml';
+export type {
+  CadesCspViolation,
+  CadesOperationErrorCode,
+  CadesOperationErrorDetails,
   CadesPluginClient,
   CadesPluginErrorCode,
   CadesPluginErrorDetails,
   CadesPluginGlobal,
+  CadesPluginInitTrace,
+  CadesPluginClientOptions,
   CadesPluginInstallOptions,
+  CadesPluginLifecycleEvent,
+  CadesPluginLifecycleListener,
   CadesPluginLogLevelName,
   CadesPluginLogger,
+  CadesPluginObjectFactory,
+  CadesPluginScriptAttempt,
+  CadesPluginState,
   LogLevel,
 } from './cadesplugin_api.types';
 
@@ -22,24 +196,164 @@ export type {
 export function createCadesPluginClient(
   win: Window,
   doc: Document,
-  options?: CadesPluginInstallOptions,
+  options?: CadesPluginClientOptions,
 ): CadesPluginClient {
-  const raw = installCadesPlugin(win, doc, options);
+  const queue = options?.queue ? createOperationQueue(options.queue === true ? undefined : options.queue) : null;
+  const tsaUrls = resolveTsaUrls(options?.tsa);
+  const requireTsaHashAlgorithm = resolveTsaHashAlgorithm(options?.tsa);
+
+  const listeners = new Set<CadesPluginLifecycleListener>();
+  const forward: CadesPluginLifecycleListener = (event) => {
+    options?.onStateChange?.(event);
+    for (const listener of [...listeners]) listener(event);
+  };
+
+  let unsubscribe: (() => void) | undefined;
+  // Upstream globals do not report stages; their state is derived from `ready`.
+  let fallbackState: CadesPluginState = 'loading-script';
+
+  const install = () => {
+    const existing = (win as any).cadesplugin;
+    // Passing the forwarder as an option also catches the stages emitted inside `installCadesPlugin`.
+    const installOptions =
+      options?.onStateChange !== undefined && typeof options.onStateChange !== 'function'
+        ? options
+        : { ...options, onStateChange: forward };
+    const next = installCadesPlugin(win, doc, installOptions);
+    // A reused global was installed with somebody else's options.
+    unsubscribe = next === existing ? next.onStateChange?.(forward) : undefined;
+    fallbackState = 'loading-script';
+    Promise.resolve(next).then(
+      () => void (fallbackState = 'ready'),
+      () => void (fallbackState = 'failed'),
+    );
+    return next;
+  };
+
+  let raw = install();
+  let ready = Promise.resolve(raw);
+  const objects = createObjectTracker(() => raw);
+  const createObject = ((name: string) =>
+    objects.track(raw).CreateObjectAsync(name)) as CadesPluginGlobal['CreateObjectAsync'];
+  const fluent = createFluentPlugin({ CreateObjectAsync: createObject });
+
+  const dispose = () => {
+    disposeCadesPlugin(win, raw);
+    objects.forgetLive();
+    unsubscribe?.();
+    unsubscribe = undefined;
+  };
+  const reinitialize = () => {
+    dispose();
+    raw = install();
+    ready = Promise.resolve(raw);
+    return ready;
+  };
+
+  // Everything below reads `raw` at call time so it follows `reinitialize()`.
+  const run = <T>(
+    opts: CadesOperationOptions | undefined,
+    operation: (plugin: CadesPluginObjectFactory) => Promise<T>,
+  ): Promise<T> => {
+    // The tracker releases the objects once no other operation or scope still uses them.
+    const start = (signal: AbortSignal | undefined) =>
+      objects.runOperation(() => operation(objects.track(abortablePlugin(raw, signal))));
+    return queue ? queue.run(start, opts) : withAbortSignal(opts?.signal, () => start(opts?.signal));
+  };
+
+  // Operations without their own `tsaUrl`/`requireTsaHashAlgorithm` use the client TSA settings.
+  const withRequiredTsaHashAlgorithm = <O extends { requireTsaHashAlgorithm?: CadesHashAlgorithmName }>(opts: O): O =>
+    requireTsaHashAlgorithm && opts?.requireTsaHashAlgorithm === undefined
+      ? { ...opts, requireTsaHashAlgorithm }
+      : opts;
+  const withTsa = <O extends { tsaUrl?: string; requireTsaHashAlgorithm?: CadesHashAlgorithmName }, T>(
+    opts: O,
+    call: (opts: O) => Promise<T>,
+  ): Promise<T> => withTsaFallback(tsaUrls, withRequiredTsaHashAlgorithm(opts), call);
+
+  const spawn = <T>(
+    signal: AbortSignal | undefined,
+    generatorFunc: (args: any[]) => Generator<any, T, any>,
+    args: any[],
+  ): Promise<T> => {
+    // Generators create their objects on `raw` directly; counting them as operations keeps others from freeing them.
+    const start = (startSignal: AbortSignal | undefined) =>
+      objects.runOperation(() =>
+        raw.async_spawn_with_signal
+          ? raw.async_spawn_with_signal(startSignal, generatorFunc, ...args)
+          : withAbortSignal(startSignal, () => raw.async_spawn(generatorFunc, ...args)),
+      );
+    return queue ? queue.run(start, { signal }) : start(signal);
+  };
+
   return {
-    raw,
-    ready: Promise.resolve(raw),
-    async_spawn: raw.async_spawn,
-    CreateObjectAsync: raw.CreateObjectAsync,
-    getLastError: raw.getLastError,
+    get raw() {
+      return raw;
+    },
+    get ready() {
+      return ready;
+    },
+    get state() {
+      return raw.state ?? fallbackState;
+    },
+    get lifecycle() {
+      return raw.lifecycle ?? [];
+    },
+    onStateChange: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getExtensionInfo: (opts) => getExtensionInfo(win, opts),
+    get queueDepth() {
+      return queue?.depth ?? 0;
+    },
+    get objectCounters() {
+      return objects.counters;
+    },
+    async_spawn: (generatorFunc, ...args) =>
+      queue
+        ? spawn(undefined, generatorFunc, args)
+        : objects.runOperation(() => raw.async_spawn(generatorFunc, ...args)),
+    async_spawn_with_signal: (signal, generatorFunc, ...args) => spawn(signal, generatorFunc, args),
+    CreateObjectAsync: createObject,
+    getLastError: (exception) => raw.getLastError(exception),
+    fluent,
+    withScope: objects.withScope,
+    createScope: objects.openScope,
+    listCertificates: (opts) => run(opts, (plugin) => listCertificates(plugin, opts)),
+    signCades: (data, opts) => withTsa(opts, (o) => run(o, (plugin) => signCades(plugin, data, o))),
+    // signBatch falls back to the next TSA per item and watches the signal itself, so that neither a TSA outage nor
+    // an abort throws away what was already signed.
+    signBatch: (items, opts) => {
+      const o = withRequiredTsaHashAlgorithm(opts?.tsaUrl || opts?.tsaUrls ? opts : { ...opts, tsaUrls });
+      return run({ ...o, signal: undefined }, (plugin) => signBatch(plugin, items, o));
+    },
+    verifyCades: (signature, opts) => run(opts, (plugin) => verifyCades(plugin, signature, opts)),
+    listSigners: (signature, opts) => run(opts, (plugin) => listSigners(plugin, signature, opts)),
+    coSign: (signature, opts) => withTsa(opts, (o) => run(o, (plugin) => coSignCades(plugin, signature, o))),
+    enhanceSignature: (signature, opts) =>
+      withTsa(opts, (o) => run(o, (plugin) => enhanceSignature(plugin, signature, o))),
+    hash: (input, opts) => run(opts, (plugin) => hash(plugin, input, opts)),
+    signHash: (hashResult, opts) => withTsa(opts, (o) => run(o, (plugin) => signHash(plugin, hashResult, o))),
+    signXml: (xml, opts) => run(opts, (plugin) => signXml(plugin, xml, opts)),
+    verifyXml: (signedXml, opts) => run(opts, (plugin) => verifyXml(plugin, signedXml, opts)),
+    encrypt: (data, opts) => run(opts, (plugin) => encrypt(plugin, data, opts)),
+    decrypt: (envelope, opts) => run(opts, (plugin) => decrypt(plugin, envelope, opts)),
+    dispose,
+    reinitialize,
+    retry: reinitialize,
   };
 }
 
 export async function initCadesPluginClient(
   win: Window,
   doc: Document,
-  options?: CadesPluginInstallOptions,
+  options?: CadesPluginClientOptions,
 ): Promise<CadesPluginClient> {
   const client = createCadesPluginClient(win, doc, options);
-  await client.ready;
+  // A reused `window.cadesplugin` is shared, so the signal only stops waiting for it.
+  await withAbortSignal(options?.signal, () => client.ready);
   return client;
 }
@@ -0,0 +1,17 @@
+// Server entrypoint (`@nkrass/cryptopro-cadesplugin-api-ts/server`): adds the CryptoPro extension origins to the
+// CSP of trusted routes only. Works with plain Node `http`, Connect/Express and Koa.
+export {
+  applyCryptoProCsp,
+  cryptoProCspKoaMiddleware,
+  cryptoProCspMiddleware,
+  isCryptoProRoute,
+} from './cadesplugin_api.server';
+export type {
+  CryptoProCspMiddlewareOptions,
+  CryptoProRoutePattern,
+  KoaLikeContext,
+  NodeLikeRequest,
+  NodeLikeResponse,
+} from './cadesplugin_api.server';
+export { checkCryptoProCsp, patchCryptoProCsp } from './cadesplugin_api.csp';
+export type { CadesCspCheckOptions } from './cadesplugin_api.csp';
@@ -0,0 +1,18 @@
+// Test-kit entrypoint (`@nkrass/cryptopro-cadesplugin-api-ts/testing`): emulates the CryptoPro extension
+// and plugin in jsdom/happy-dom. Not meant for production bundles.
+export {
+  createFakeCadesPlugin,
+  createFakeTsa,
+  installFakeCryptoProExtension,
+} from './cadesplugin_api.testing';
+export type {
+  FakeCadesPlugin,
+  FakeCadesPluginOptions,
+  FakeCertificate,
+  FakeCryptoProExtension,
+  FakeCryptoProExtensionOptions,
+  FakeExtensionFailure,
+  FakeStore,
+  FakeTsa,
+  FakeTsaOptions,
+} from './cadesplugin_api.testing';
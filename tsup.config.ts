@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/cadesplugin_api.ts'],
+  entry: ['src/index.ts', 'src/cadesplugin_api.ts', 'src/testing.ts', 'src/server.ts'],
   format: ['esm', 'cjs'],
   dts: true,
   sourcemap: true,